@@ -0,0 +1,46 @@
+import { timingSafeEqual } from 'crypto';
+import { clearCaches, getCacheStats } from '@/lib/utils/cache';
+
+// Cache registration happens when the data modules load, so import them for their caches
+import '@/lib/data/budgetRepository';
+import '@/lib/data/billedHoursSource';
+
+// Check the x-admin-key header against ADMIN_API_KEY; the endpoint is disabled without a key
+function authorize(req: Request): Response | null {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return Response.json({ error: 'Admin endpoints are disabled. Set ADMIN_API_KEY to enable them.' }, { status: 403 });
+  }
+
+  const providedKey = Buffer.from(req.headers.get('x-admin-key') || '');
+  const expectedKey = Buffer.from(adminKey);
+  if (providedKey.length !== expectedKey.length || !timingSafeEqual(providedKey, expectedKey)) {
+    return Response.json({ error: 'Invalid admin key' }, { status: 401 });
+  }
+
+  return null;
+}
+
+// Show entry counts and hit rates per cache
+export async function GET(req: Request) {
+  const unauthorized = authorize(req);
+  if (unauthorized) return unauthorized;
+
+  return Response.json({ caches: getCacheStats() });
+}
+
+// Purge all caches, or one cache with ?name=budget or ?name=billedHours
+export async function DELETE(req: Request) {
+  const unauthorized = authorize(req);
+  if (unauthorized) return unauthorized;
+
+  const name = new URL(req.url).searchParams.get('name') || undefined;
+  const purged = clearCaches(name);
+
+  if (name && purged.length === 0) {
+    return Response.json({ error: `Unknown cache '${name}'`, caches: getCacheStats().map(cache => cache.name) }, { status: 404 });
+  }
+
+  console.log(`Admin: purged caches ${purged.join(', ')}`);
+  return Response.json({ purged });
+}
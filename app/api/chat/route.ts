@@ -1,100 +1,99 @@
-import { streamText } from 'ai';
-import { createAzure } from '@ai-sdk/azure';
-import { getExecutiveSummary } from '@/lib/ai/tools';
+import { streamText, generateId, convertToCoreMessages } from 'ai';
+import { getExecutiveSummary, getTeamPerformance, getEntityComparison, getDataQuality, getTrend, getForecast, getProjectDrillDown, getBudgetReport, withUserScope } from '@/lib/ai/tools';
+import { buildSystemPrompt } from '@/lib/ai/prompts/systemPrompt';
+import { getChatModel, getMissingAzureConfiguration, getResourceName } from '@/lib/ai/azure';
+import { getPrivacyRoster } from '@/lib/ai/privacy/roster';
+import { createPrivacyGuard } from '@/lib/ai/privacy/guard';
+import { authorizeRequest } from '@/lib/auth/authorizeRequest';
+import { getConversationStore } from '@/lib/data/conversationStore';
+import { apiErrorResponse } from '@/lib/api/errors';
+import { checkConversationLimits, getChatLimits, parseChatRequest } from '@/lib/api/chatRequest';
+import { createRateLimiter } from '@/lib/utils/rateLimit';
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 30;
 
-// Extract resource name from endpoint URL if not provided separately
-function getResourceName(): string | undefined {
-  const resourceName = process.env.AZURE_OPENAI_RESOURCE_NAME;
-  if (resourceName) return resourceName;
-  
-  const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
-  if (endpoint) {
-    // Extract resource name from URL like: https://your-resource-name.openai.azure.com
-    const match = endpoint.match(/https:\/\/([^.]+)\.openai\.azure\.com/);
-    return match ? match[1] : undefined;
-  }
-  
-  return undefined;
-}
-
-// Configure Azure OpenAI with proper error handling
-const azure = createAzure({
-  resourceName: getResourceName(),
-  apiKey: process.env.AZURE_OPENAI_API_KEY || undefined,
-  apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-02-01',
-});
+// Chat requests per user, per server process
+const rateLimiter = createRateLimiter(getChatLimits().requestsPerMinute, 60 * 1000);
 
 export async function POST(req: Request) {
   try {
-    const { messages } = await req.json();
+    // Tools are limited to the teams in the user's scope, whatever the prompt asks for
+    const scope = await authorizeRequest(req);
+    if (scope instanceof Response) {
+      return scope;
+    }
+
+    const rateLimit = rateLimiter.check(scope.user);
+    if (!rateLimit.allowed) {
+      return apiErrorResponse(429, 'rate_limited', `Too many questions in a short time. Please try again in ${rateLimit.retryAfterSeconds} seconds.`, {
+        retryAfterSeconds: rateLimit.retryAfterSeconds
+      });
+    }
 
-    console.log('Chat API: Processing request with', messages.length, 'messages');
+    const missingConfiguration = getMissingAzureConfiguration();
+    if (missingConfiguration) {
+      console.error(`Chat API: ${missingConfiguration}`);
+      return apiErrorResponse(503, 'service_unavailable', 'The assistant is not available right now. Please contact the administrator.');
+    }
 
-    // Validate required environment variables
-    if (!process.env.AZURE_OPENAI_DEPLOYMENT_MODEL) {
-      throw new Error('AZURE_OPENAI_DEPLOYMENT_MODEL environment variable is required');
+    const limits = getChatLimits();
+    const chatRequest = await parseChatRequest(req, limits);
+    if (chatRequest instanceof Response) {
+      return chatRequest;
     }
 
-    if (!process.env.AZURE_OPENAI_API_KEY) {
-      throw new Error('AZURE_OPENAI_API_KEY environment variable is required');
+    // The history comes from the conversation store, not from the client
+    const { id: conversationId, message } = chatRequest;
+    const conversationStore = getConversationStore();
+    const history = (await conversationStore.getConversation(scope.user, conversationId))?.messages ?? [];
+    // A resent message replaces itself and the messages after it, as in appendMessages, so check the history before it
+    const resentIndex = history.findIndex(stored => stored.id === message.id);
+    const limitExceeded = checkConversationLimits([...(resentIndex >= 0 ? history.slice(0, resentIndex) : history), message], limits);
+    if (limitExceeded) {
+      return limitExceeded;
     }
 
-    if (!getResourceName()) {
-      throw new Error('Either AZURE_OPENAI_RESOURCE_NAME or AZURE_OPENAI_ENDPOINT must be provided');
+    const conversation = await conversationStore.appendMessages(scope.user, conversationId, [
+      { id: message.id, role: 'user', content: message.content, createdAt: new Date().toISOString() }
+    ]);
+    if (!conversation) {
+      return apiErrorResponse(404, 'not_found', `Conversation '${conversationId}' not found`);
     }
 
+    // Answers are sent with their stored tool calls and results, so the model sees the figures behind them
+    const messages = convertToCoreMessages(conversation.messages.map(({ role, content, toolInvocations }) => ({
+      role,
+      content,
+      toolInvocations: toolInvocations?.map(({ step, toolCallId, toolName, args, result }) => ({ state: 'result' as const, step, toolCallId, toolName, args, result }))
+    })));
+
+    console.log('Chat API: Processing conversation', conversationId, 'with', messages.length, 'messages for', scope.user, `(${scope.role})`);
+
     console.log('Azure configuration:', {
       resourceName: getResourceName(),
       deploymentModel: process.env.AZURE_OPENAI_DEPLOYMENT_MODEL,
       apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-02-01',
     });
 
+    // Tool results are pseudonymised and the streamed answer is scanned for employee names and initials
+    const privacyGuard = createPrivacyGuard(await getPrivacyRoster());
+
     const result = streamText({
-      model: azure(process.env.AZURE_OPENAI_DEPLOYMENT_MODEL),
-      system: `You are a budget analysis assistant at Solitwork that helps users analyze budget performance data. **Always respond in well-formatted Markdown format.**
-
-You can provide reports of budget performance including:
-
-- **Executive Summary**
-- **Team-level performance analysis**
-
-When users ask about budget summaries, executive summary, overall performance, or how teams are doing, use the getExecutiveSummary tool. This tool accepts:
-- **period**: Monthly Time period for analysis (e.g., "May 2025", "June 2025")
-- **team**: Optional team filter (if not specified, analyzes all teams)
-
-Provide a written report that integrates 1-3 key metrics in natural language. Do not list the metrics.
-[Report]
-
-Based on the report, provide 1 recommendation. 
-- Do not recommend performance reviews.
-- Do not create lists in the response.
-[Recommendations]
-
-<Guidelines>
-- Format all responses in professional, well-structured Markdown.
-- Use percentages instead of whole numbers when analyzing variances.
-</Guidelines>
-
-<Solitwork>
-- CST3 and CST4 belong to Solitwork Denmark.
-- CST5 belong to Solitwork Deutschland.
-</Solitwork>
-
-<limitations>
-Do not create individual employee performance analysis.
-Do not include any Employee names or initials in the response.
-Do not create any tables in the response.
-Do not recommend performance reviews.
-Do not create lists in the response.
-</limitations>
-`,
+      model: getChatModel(),
+      system: buildSystemPrompt(scope),
       messages,
-      tools: {
+      tools: privacyGuard.wrapTools(withUserScope({
         getExecutiveSummary,
-      },
+        getTeamPerformance,
+        getEntityComparison,
+        getDataQuality,
+        getTrend,
+        getForecast,
+        getProjectDrillDown,
+        getBudgetReport,
+      }, scope)),
+      experimental_transform: privacyGuard.createOutputTransform(),
       maxTokens: 4000,
       temperature: 0.1, // Keep responses consistent and focused for business analysis
       onChunk({ chunk }) {
@@ -108,6 +107,33 @@ Do not create lists in the response.
       onError({ error }) {
         console.error('Streaming error:', error);
       },
+      // Store the answer as streamed to the user, after the privacy transform, with the sanitized tool results
+      async onFinish({ steps, response }) {
+        const content = steps.map(step => step.text).join('');
+        if (!content.trim()) {
+          return;
+        }
+
+        const toolInvocations = steps.flatMap((step, index) => step.toolResults.map(({ toolCallId, toolName, args, result }) => ({
+          step: index,
+          toolCallId,
+          toolName,
+          args,
+          result
+        })));
+
+        try {
+          await conversationStore.appendMessages(scope.user, conversationId, [{
+            id: response.messages.find(responseMessage => responseMessage.role === 'assistant')?.id ?? generateId(),
+            role: 'assistant',
+            content,
+            ...(toolInvocations.length > 0 ? { toolInvocations } : {}),
+            createdAt: new Date().toISOString()
+          }]);
+        } catch (error) {
+          console.error(`Chat API: Could not store the answer in conversation ${conversationId}:`, error);
+        }
+      },
       maxSteps: 10,
     });
 
@@ -122,11 +148,6 @@ Do not create lists in the response.
     });
   } catch (error: unknown) {
     console.error('Chat API Error:', error);
-    
-    if (error instanceof Error) {
-      return new Response(`Error: ${error.message}`, { status: 500 });
-    }
-    
-    return new Response('Internal server error', { status: 500 });
+    return apiErrorResponse(500, 'internal_error', 'Something went wrong while processing your request. Please try again.');
   }
 } 
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { authorizeRequest } from '@/lib/auth/authorizeRequest';
+import { getConversationStore } from '@/lib/data/conversationStore';
+import { conversationIdSchema, renameConversationSchema } from '@/lib/schemas/conversation';
+import { apiErrorResponse } from '@/lib/api/errors';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Resolve the conversation ID from the route, or the 400 response for a malformed ID
+async function getConversationId(context: RouteContext): Promise<string | Response> {
+  const { id } = await context.params;
+  return conversationIdSchema.safeParse(id).success
+    ? id
+    : apiErrorResponse(400, 'invalid_request', `Invalid conversation ID '${id}'`);
+}
+
+function notFound(id: string): Response {
+  return apiErrorResponse(404, 'not_found', `Conversation '${id}' not found`);
+}
+
+// Get a conversation with its messages, to resume it
+export async function GET(req: Request, context: RouteContext) {
+  const scope = await authorizeRequest(req);
+  if (scope instanceof Response) return scope;
+  const id = await getConversationId(context);
+  if (id instanceof Response) return id;
+
+  const conversation = await getConversationStore().getConversation(scope.user, id);
+  return conversation ? Response.json({ conversation }) : notFound(id);
+}
+
+// Rename a conversation with { "title": "..." }
+export async function PATCH(req: Request, context: RouteContext) {
+  const scope = await authorizeRequest(req);
+  if (scope instanceof Response) return scope;
+  const id = await getConversationId(context);
+  if (id instanceof Response) return id;
+
+  const parsed = renameConversationSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return apiErrorResponse(400, 'invalid_request', 'The conversation request is invalid', { details: parsed.error.issues.map(issue => issue.message) });
+  }
+
+  const conversation = await getConversationStore().renameConversation(scope.user, id, parsed.data.title);
+  return conversation ? Response.json({ conversation }) : notFound(id);
+}
+
+// Delete a conversation
+export async function DELETE(req: Request, context: RouteContext) {
+  const scope = await authorizeRequest(req);
+  if (scope instanceof Response) return scope;
+  const id = await getConversationId(context);
+  if (id instanceof Response) return id;
+
+  const deleted = await getConversationStore().deleteConversation(scope.user, id);
+  return deleted ? Response.json({ deleted: id }) : notFound(id);
+}
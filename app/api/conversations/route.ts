@@ -0,0 +1,26 @@
+import { authorizeRequest } from '@/lib/auth/authorizeRequest';
+import { getConversationStore } from '@/lib/data/conversationStore';
+import { createConversationSchema } from '@/lib/schemas/conversation';
+import { apiErrorResponse } from '@/lib/api/errors';
+
+// List the signed-in user's conversations, most recently updated first
+export async function GET(req: Request) {
+  const scope = await authorizeRequest(req);
+  if (scope instanceof Response) return scope;
+
+  return Response.json({ conversations: await getConversationStore().listConversations(scope.user) });
+}
+
+// Start an empty conversation, optionally with a title
+export async function POST(req: Request) {
+  const scope = await authorizeRequest(req);
+  if (scope instanceof Response) return scope;
+
+  const parsed = createConversationSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return apiErrorResponse(400, 'invalid_request', 'The conversation request is invalid', { details: parsed.error.issues.map(issue => issue.message) });
+  }
+
+  const conversation = await getConversationStore().createConversation(scope.user, { title: parsed.data.title });
+  return Response.json({ conversation }, { status: 201 });
+}
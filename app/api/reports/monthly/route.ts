@@ -0,0 +1,36 @@
+import { authorizeRequest } from '@/lib/auth/authorizeRequest';
+import { exportMonthlyReports } from '@/lib/ai/reports/monthlyExport';
+import { toToolError } from '@/lib/ai/tools/toolErrors';
+import { monthlyExportRequestSchema } from '@/lib/schemas/report';
+import { apiErrorResponse, toolErrorResponse } from '@/lib/api/errors';
+
+// One report per team and entity, each with an optional model call for the commentary
+export const maxDuration = 300;
+
+// Export the monthly reports for all teams and entities to the reports directory (finance only).
+// Runs the same export as `npm run export-reports`, for schedulers that call HTTP endpoints.
+export async function POST(req: Request) {
+  const scope = await authorizeRequest(req);
+  if (scope instanceof Response) return scope;
+
+  if (scope.role !== 'finance') {
+    return apiErrorResponse(403, 'forbidden', 'Only finance users can export the monthly reports for all teams');
+  }
+
+  const parsed = monthlyExportRequestSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return apiErrorResponse(400, 'invalid_request', 'The export request is invalid', { details: parsed.error.issues.map(issue => issue.message) });
+  }
+
+  try {
+    const result = await exportMonthlyReports(parsed.data);
+    return Response.json({ export: result }, { status: 201 });
+  } catch (error) {
+    const toolError = toToolError(error, {}, 'Failed to export monthly reports');
+    if (toolError.errorType === 'internal_error') {
+      console.error('Monthly export error:', error);
+      return apiErrorResponse(500, 'internal_error', 'The monthly reports could not be exported. Please try again.');
+    }
+    return toolErrorResponse(toolError);
+  }
+}
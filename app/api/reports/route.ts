@@ -0,0 +1,55 @@
+import { authorizeRequest } from '@/lib/auth/authorizeRequest';
+import { authorizeTeam } from '@/lib/auth/accessControl';
+import { getBudgetReport } from '@/lib/ai/reports/budgetReport';
+import { getPrivacyRoster } from '@/lib/ai/privacy/roster';
+import { createPrivacyGuard, getMinGroupSize } from '@/lib/ai/privacy/guard';
+import { createToolError, toToolError } from '@/lib/ai/tools/toolErrors';
+import { budgetReportQuerySchema } from '@/lib/schemas/report';
+import { apiErrorResponse, toolErrorResponse } from '@/lib/api/errors';
+import { parsePeriod } from '@/lib/utils/periodRange';
+import { isAllTeams, resolveTeamFilter } from '@/lib/utils/teamMapping';
+
+// Budget report for a period, as Markdown (default) or as JSON with the headline and recommendation.
+// The report is built without the model, so the same period always gives the same report.
+export async function GET(req: Request) {
+  const scope = await authorizeRequest(req);
+  if (scope instanceof Response) return scope;
+
+  const parsed = budgetReportQuerySchema.safeParse(Object.fromEntries(new URL(req.url).searchParams));
+  if (!parsed.success) {
+    return apiErrorResponse(400, 'invalid_request', 'The report request is invalid', { details: parsed.error.issues.map(issue => issue.message) });
+  }
+  const { period, team, format } = parsed.data;
+
+  const authorization = authorizeTeam(scope, team);
+  if (!authorization.authorized) {
+    return toolErrorResponse(createToolError('not_authorized', authorization.reason));
+  }
+
+  try {
+    const range = parsePeriod(period);
+    const teamFilter = authorization.team && !isAllTeams(authorization.team)
+      ? resolveTeamFilter(authorization.team)
+      : undefined;
+
+    if (teamFilter && createPrivacyGuard(await getPrivacyRoster()).isSmallGroup(teamFilter.label)) {
+      return toolErrorResponse(createToolError(
+        'insufficient_group_size',
+        `${teamFilter.label} has fewer than ${getMinGroupSize()} employees, so its figures are not reported to protect individual employees`
+      ));
+    }
+
+    const report = await getBudgetReport(range, teamFilter, new Date());
+    if (format === 'json') {
+      return Response.json({ report });
+    }
+    return new Response(report.markdown, { headers: { 'Content-Type': 'text/markdown; charset=utf-8' } });
+  } catch (error) {
+    const toolError = toToolError(error, {}, 'Failed to generate budget report');
+    if (toolError.errorType === 'internal_error') {
+      console.error('Budget report error:', error);
+      return apiErrorResponse(500, 'internal_error', 'The report could not be generated. Please try again.');
+    }
+    return toolErrorResponse(toolError);
+  }
+}
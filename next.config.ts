@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdfkit reads its font metrics from its package directory at runtime, so it must not be bundled
+  serverExternalPackages: ["pdfkit"],
 };
 
 export default nextConfig;
@@ -0,0 +1,70 @@
+#!/usr/bin/env tsx
+
+import assert from 'assert/strict';
+import { aggregateHarvestEntries, HarvestEntry } from '../src/lib/data/billedHoursSource';
+import { parsePeriod } from '../src/lib/utils/periodRange';
+import { runChecks, Check } from './lib/runChecks';
+
+/**
+ * Check that the file-backed billed hours source aggregates Harvest entries like the warehouse query.
+ * Usage: npm run check-billed-hours-source
+ * Exits with code 1 if a check fails.
+ */
+
+function harvestEntry(id: string, hours: number, overrides: Partial<HarvestEntry> = {}): HarvestEntry {
+  return {
+    DW_ID: id,
+    EmployeeName: 'THN - Thomas Nissen',
+    EmployeeID_EmployeeNiv1: 'CST3',
+    Hours: hours,
+    IsBillableKey: 1,
+    Date: '20250512',
+    DW_Batch_Created: '2025-05-31T02:00:00',
+    ClientName: 'Fjordbank A/S',
+    ProjectName: 'Finance Reporting',
+    ...overrides
+  };
+}
+
+async function checkBilledHoursSource() {
+  const may = parsePeriod('May 2025');
+
+  const checks: Check[] = [
+    {
+      name: 'the latest batch of a reloaded entry wins',
+      run: () => {
+        const result = aggregateHarvestEntries([
+          harvestEntry('1', 8, { DW_Batch_Created: '2025-05-13T02:00:00' }),
+          harvestEntry('1', 6, { DW_Batch_Created: '2025-05-14T02:00:00' }),
+          harvestEntry('2', 4)
+        ], may, ['CST3']);
+        assert.deepEqual(result, [{ EmployeeName: 'THN - Thomas Nissen', EmployeeID_EmployeeNiv1: 'CST3', BillableHours: 10, NonBillableHours: 0, TotalHours: 10 }]);
+      }
+    },
+    {
+      name: 'billable and non-billable hours are split by IsBillableKey',
+      run: () => {
+        const [employee] = aggregateHarvestEntries([harvestEntry('1', 7), harvestEntry('2', 3, { IsBillableKey: 0 })], may, ['CST3']);
+        assert.equal(employee.BillableHours, 7);
+        assert.equal(employee.NonBillableHours, 3);
+        assert.equal(employee.TotalHours, 10);
+      }
+    },
+    {
+      name: 'entries outside the period or the requested teams are left out',
+      run: () => {
+        const result = aggregateHarvestEntries([
+          harvestEntry('1', 8, { Date: '20250430' }),
+          harvestEntry('2', 8, { Date: '20250601' }),
+          harvestEntry('3', 8, { EmployeeID_EmployeeNiv1: 'CST4' }),
+          harvestEntry('4', 0)
+        ], may, ['CST3']);
+        assert.deepEqual(result, []);
+      }
+    }
+  ];
+
+  await runChecks('Billed hours source', checks);
+}
+
+checkBilledHoursSource();
@@ -0,0 +1,84 @@
+#!/usr/bin/env tsx
+
+import assert from 'assert/strict';
+import { parsePeriod, PeriodParseError } from '../src/lib/utils/periodRange';
+import { runChecks, Check } from './lib/runChecks';
+
+/**
+ * Check how parsePeriod turns period descriptions into month ranges.
+ * Usage: npm run check-period-range
+ * Exits with code 1 if a check fails.
+ */
+
+// Relative periods are resolved against mid-July 2025
+const REFERENCE_DATE = new Date(2025, 6, 15);
+
+function firstAndLastMonth(period: string): [string, string] {
+  const { monthCodes } = parsePeriod(period, REFERENCE_DATE);
+  return [monthCodes[0], monthCodes[monthCodes.length - 1]];
+}
+
+async function checkPeriodRange() {
+  const checks: Check[] = [
+    {
+      name: 'single months, quarters, half-years and years',
+      run: () => {
+        assert.deepEqual(firstAndLastMonth('May 2025'), ['202505', '202505']);
+        assert.deepEqual(firstAndLastMonth('202505'), ['202505', '202505']);
+        assert.deepEqual(firstAndLastMonth('2025-05'), ['202505', '202505']);
+        assert.deepEqual(firstAndLastMonth('Q2 2025'), ['202504', '202506']);
+        assert.deepEqual(firstAndLastMonth('H2 2025'), ['202507', '202512']);
+        assert.deepEqual(firstAndLastMonth('2025'), ['202501', '202512']);
+        assert.deepEqual(firstAndLastMonth('YTD 2025'), ['202501', '202507']);
+      }
+    },
+    {
+      name: 'relative periods',
+      run: () => {
+        assert.deepEqual(firstAndLastMonth('last month'), ['202506', '202506']);
+        assert.deepEqual(firstAndLastMonth('last quarter'), ['202504', '202506']);
+      }
+    },
+    {
+      name: 'explicit ranges with dashes and words',
+      run: () => {
+        for (const period of ['March–May 2025', 'March - May 2025', 'March-May 2025', 'March to May 2025', 'March 2025 through May 2025']) {
+          assert.deepEqual(firstAndLastMonth(period), ['202503', '202505'], period);
+        }
+        assert.deepEqual(firstAndLastMonth('Nov 2024 - Feb 2025'), ['202411', '202502']);
+      }
+    },
+    {
+      name: 'explicit ranges of ISO months are not split on the hyphen inside a month',
+      run: () => {
+        assert.deepEqual(firstAndLastMonth('2025-03 - 2025-05'), ['202503', '202505']);
+        assert.deepEqual(firstAndLastMonth('2025-03–2025-05'), ['202503', '202505']);
+        assert.deepEqual(firstAndLastMonth('202503 to 202505'), ['202503', '202505']);
+      }
+    },
+    {
+      name: 'a range with one year that crosses the new year starts in the year before',
+      run: () => {
+        assert.deepEqual(firstAndLastMonth('Nov–Feb 2025'), ['202411', '202502']);
+        assert.equal(parsePeriod('Nov–Feb 2025', REFERENCE_DATE).monthCodes.length, 4);
+      }
+    },
+    {
+      name: 'a range whose explicit start is after its end is rejected',
+      run: () => {
+        assert.throws(() => parsePeriod('Nov 2025 - Feb 2025', REFERENCE_DATE), PeriodParseError);
+      }
+    },
+    {
+      name: 'unknown periods are rejected',
+      run: () => {
+        assert.throws(() => parsePeriod('sometime soon', REFERENCE_DATE), PeriodParseError);
+        assert.throws(() => parsePeriod('', REFERENCE_DATE), PeriodParseError);
+      }
+    }
+  ];
+
+  await runChecks('Period range', checks);
+}
+
+checkPeriodRange();
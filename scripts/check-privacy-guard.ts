@@ -0,0 +1,150 @@
+#!/usr/bin/env tsx
+
+import assert from 'assert/strict';
+import type { TextStreamPart, ToolSet } from 'ai';
+import { createPrivacyGuard, pseudonymizeEmployee } from '../src/lib/ai/privacy/guard';
+import type { PrivacyRoster } from '../src/lib/ai/privacy/roster';
+import { runChecks, Check } from './lib/runChecks';
+
+/**
+ * Check that the privacy guard drops employee names from tool results, suppresses small groups and
+ * redacts names from streamed text, including names split across chunks.
+ * Usage: npm run check-privacy-guard
+ * Exits with code 1 if a check fails.
+ */
+
+const MIN_GROUP_SIZE = 3;
+
+function createRoster(): PrivacyRoster {
+  return {
+    groupSizes: new Map([['CST III', 6], ['CST V', 2], ['SOLITWORK DEUTSCHLAND', 2]]),
+    initials: new Set(['THN', 'MKL']),
+    names: new Set(['THN - Thomas Nissen'])
+  };
+}
+
+/**
+ * Run text chunks through the output transform and return the streamed text
+ */
+async function streamText(chunks: string[], guard = createPrivacyGuard(createRoster(), MIN_GROUP_SIZE)): Promise<{ text: string; deltas: string[] }> {
+  const transform = guard.createOutputTransform<ToolSet>()();
+  const writer = transform.writable.getWriter();
+  const reader = transform.readable.getReader();
+
+  const writing = (async () => {
+    for (const textDelta of chunks) {
+      await writer.write({ type: 'text-delta', textDelta });
+    }
+    await writer.close();
+  })();
+
+  const deltas: string[] = [];
+  for (let part = await reader.read(); !part.done; part = await reader.read()) {
+    const chunk = part.value as TextStreamPart<ToolSet>;
+    if (chunk.type === 'text-delta') {
+      deltas.push(chunk.textDelta);
+    }
+  }
+  await writing;
+
+  return { text: deltas.join(''), deltas };
+}
+
+async function checkPrivacyGuard() {
+  const checks: Check[] = [
+    {
+      name: 'name fields are dropped and initials are pseudonymised',
+      run: () => {
+        const guard = createPrivacyGuard(createRoster(), MIN_GROUP_SIZE);
+        const result = guard.sanitizeToolResult({
+          error: false,
+          employees: [{ initials: 'THN', fullName: 'Thomas Nissen', databaseName: 'THN - Thomas Nissen', team: 'CST III', billedHours: 120 }],
+          message: 'Thomas Nissen billed 120 hours'
+        }) as Record<string, unknown>;
+
+        const [employee] = result.employees as Array<Record<string, unknown>>;
+        assert.deepEqual(employee, { initials: pseudonymizeEmployee('THN'), team: 'CST III', billedHours: 120 });
+        assert.equal(result.message, `${pseudonymizeEmployee('THN')} billed 120 hours`);
+        assert.ok(!JSON.stringify(result).includes('Nissen'));
+      }
+    },
+    {
+      name: 'names found in a tool result are also redacted from later text',
+      run: () => {
+        const guard = createPrivacyGuard({ ...createRoster(), names: new Set() }, MIN_GROUP_SIZE);
+        guard.sanitizeToolResult({ employees: [{ employeeName: 'ABC - Anna Bech' }] });
+        assert.equal(guard.redactText('Anna Bech and ABC'), `${pseudonymizeEmployee('ABC')} and ${pseudonymizeEmployee('ABC')}`);
+      }
+    },
+    {
+      name: 'small teams and entities are suppressed from aggregates',
+      run: () => {
+        const guard = createPrivacyGuard(createRoster(), MIN_GROUP_SIZE);
+        const result = guard.sanitizeToolResult({
+          error: false,
+          teams: [{ team: 'CST III', employeeCount: 6, billedHours: 900 }, { team: 'CST V', employeeCount: 2, billedHours: 250 }],
+          entities: { 'Solitwork Denmark': { billedHours: 900 }, 'Solitwork Deutschland': { billedHours: 250 } },
+          byTeamSize: [{ teamSize: 1, billedHours: 40 }]
+        }) as Record<string, unknown>;
+
+        assert.deepEqual(result.teams, [{ team: 'CST III', employeeCount: 6, billedHours: 900 }]);
+        assert.deepEqual(result.entities, { 'Solitwork Denmark': { billedHours: 900 }, 'Solitwork Deutschland': { suppressed: true } });
+        assert.deepEqual(result.byTeamSize, []);
+        assert.deepEqual((result.privacy as { suppressedGroups: string[] }).suppressedGroups, ['CST V', 'Solitwork Deutschland', 'Small group']);
+      }
+    },
+    {
+      name: 'a comparison naming a small entity is suppressed with the entity',
+      run: () => {
+        const guard = createPrivacyGuard(createRoster(), MIN_GROUP_SIZE);
+        const result = guard.sanitizeToolResult({
+          error: false,
+          entities: [{ entity: 'Solitwork Denmark', utilizationRate: 92 }, { entity: 'Solitwork Deutschland', utilizationRate: 71 }],
+          comparison: { highestUtilization: 'Solitwork Denmark', lowestUtilization: 'Solitwork Deutschland', utilizationGap: 21 }
+        }) as Record<string, unknown>;
+
+        assert.deepEqual(result.entities, [{ entity: 'Solitwork Denmark', utilizationRate: 92 }]);
+        assert.deepEqual(result.comparison, { suppressed: true });
+        assert.deepEqual((result.privacy as { suppressedGroups: string[] }).suppressedGroups, ['Solitwork Deutschland']);
+      }
+    },
+    {
+      name: 'a result scoped to a small team becomes an insufficient_group_size error',
+      run: () => {
+        const guard = createPrivacyGuard(createRoster(), MIN_GROUP_SIZE);
+        const result = guard.sanitizeToolResult({ error: false, team: 'CST V', billedHours: 250 }) as Record<string, unknown>;
+        assert.equal(result.error, true);
+        assert.equal(result.errorType, 'insufficient_group_size');
+        assert.ok(!('billedHours' in result));
+      }
+    },
+    {
+      name: 'a minimum group size of 0 reports small groups',
+      run: () => {
+        const guard = createPrivacyGuard(createRoster(), 0);
+        assert.equal(guard.isSmallGroup('CST V'), false);
+        assert.deepEqual(guard.sanitizeToolResult({ error: false, team: 'CST V', billedHours: 250 }), { error: false, team: 'CST V', billedHours: 250 });
+      }
+    },
+    {
+      name: 'a name split across streamed chunks is redacted',
+      run: async () => {
+        const { text, deltas } = await streamText(['The largest overrun is Thomas Nis', 'sen (TH', 'N), followed by MKL.']);
+        assert.equal(text, `The largest overrun is ${pseudonymizeEmployee('THN')} (${pseudonymizeEmployee('THN')}), followed by ${pseudonymizeEmployee('MKL')}.`);
+        assert.ok(deltas.every(delta => !/Nis|TH$/.test(delta)));
+      }
+    },
+    {
+      name: 'streamed text without names is passed through unchanged',
+      run: async () => {
+        const chunks = ['Billed hours rose ', 'by 12% in May, ', 'while THE budget stayed flat.'];
+        const { text } = await streamText(chunks);
+        assert.equal(text, chunks.join(''));
+      }
+    }
+  ];
+
+  await runChecks('Privacy guard', checks);
+}
+
+checkPrivacyGuard();
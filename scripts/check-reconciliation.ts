@@ -0,0 +1,103 @@
+#!/usr/bin/env tsx
+
+import assert from 'assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { DatabaseEmployeeData } from '../src/lib/data/billedHoursSource';
+import type { ProcessedBudgetData } from '../src/lib/data/csvReader';
+import { runChecks, Check } from './lib/runChecks';
+
+/**
+ * Check how reconcileEmployees matches database employees with budget rows, against a temporary identity mapping.
+ * Usage: npm run check-reconciliation
+ * Exits with code 1 if a check fails.
+ */
+
+function databaseRow(name: string, team: string, billable: number, nonBillable = 0): DatabaseEmployeeData {
+  return { EmployeeName: name, EmployeeID_EmployeeNiv1: team, BillableHours: billable, NonBillableHours: nonBillable, TotalHours: billable + nonBillable };
+}
+
+function budgetRow(employee: string, team: string, hours: number): ProcessedBudgetData {
+  return { team, description: 'Customer work', employee, taskId: '1', monthlyHours: { '202505': hours }, totalHours: hours };
+}
+
+async function checkReconciliation() {
+  // The identity mapping is read from EMPLOYEE_IDENTITY_PATH on first use, so set it before loading the module
+  const mappingPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'reconciliation-')), 'employee-identities.json');
+  fs.writeFileSync(mappingPath, JSON.stringify({
+    employees: [
+      { employeeId: '1042', budgetInitials: 'THN', aliases: ['THN - Thomas Nissen', 'TNI - Thomas Nissen'], team: 'CST3' },
+      { employeeId: '1077', budgetInitials: 'XYZ', aliases: ['XYZ - Xenia Yilmaz'], team: 'CST4', budgetTeam: 'CST III' }
+    ]
+  }));
+  process.env.EMPLOYEE_IDENTITY_PATH = mappingPath;
+
+  const { reconcileEmployees, summarizeReconciliation } = await import('../src/lib/ai/data/reconciliation');
+
+  const checks: Check[] = [
+    {
+      name: 'a renamed employee is matched once and their budget is counted once',
+      run: () => {
+        const result = reconcileEmployees(
+          [databaseRow('THN - Thomas Nissen', 'CST3', 50, 5), databaseRow('TNI - Thomas Nissen', 'CST3', 60, 10)],
+          [budgetRow('THN', 'CST III', 120)]
+        );
+        assert.equal(result.matched.length, 1);
+        assert.equal(result.analysis.reduce((sum, emp) => sum + emp.budgetedHours, 0), 120);
+        assert.equal(result.matched[0].billedHours, 110);
+        assert.equal(result.matched[0].nonBillableHours, 15);
+        assert.equal(summarizeReconciliation(result).matchedCount, 1);
+        assert.deepEqual(result.diagnostics.map(diagnostic => [diagnostic.type, diagnostic.severity]), [['merged_identity', 'info']]);
+      }
+    },
+    {
+      name: 'database employees sharing parsed initials are combined with a warning',
+      run: () => {
+        const result = reconcileEmployees(
+          [databaseRow('ABC - Anna Bech', 'CST3', 40), databaseRow('ABC - Anders Brandt', 'CST3', 30)],
+          [budgetRow('ABC', 'CST III', 100)]
+        );
+        assert.equal(result.matched.length, 1);
+        assert.equal(result.matched[0].budgetedHours, 100);
+        assert.equal(result.matched[0].billedHours, 70);
+        assert.ok(result.diagnostics.some(diagnostic => diagnostic.type === 'merged_identity' && diagnostic.severity === 'warning'));
+      }
+    },
+    {
+      name: 'initials budgeted only in another team are not matched',
+      run: () => {
+        const result = reconcileEmployees(
+          [databaseRow('MKL - Martin Kleist', 'CST3', 80)],
+          [budgetRow('MKL', 'CST V', 90)]
+        );
+        assert.equal(result.matched.length, 0);
+        assert.equal(result.unbudgeted.length, 1);
+        assert.deepEqual(result.withoutHours, [{ initials: 'MKL', team: 'CST V', budgetedHours: 90 }]);
+        assert.ok(result.diagnostics.some(diagnostic => diagnostic.type === 'ambiguous_budget'));
+        assert.equal(result.analysis.filter(emp => emp.team === 'CST III').reduce((sum, emp) => sum + emp.budgetedHours, 0), 0);
+      }
+    },
+    {
+      name: 'a budget team in the identity mapping allows a cross-team match',
+      run: () => {
+        const result = reconcileEmployees(
+          [databaseRow('XYZ - Xenia Yilmaz', 'CST4', 75)],
+          [budgetRow('XYZ', 'CST III', 80), budgetRow('XYZ', 'CST V', 20)]
+        );
+        assert.equal(result.matched.length, 1);
+        assert.equal(result.matched[0].team, 'CST III');
+        assert.equal(result.matched[0].budgetedHours, 80);
+        assert.deepEqual(result.withoutHours, [{ initials: 'XYZ', team: 'CST V', budgetedHours: 20 }]);
+      }
+    }
+  ];
+
+  try {
+    await runChecks('Reconciliation', checks);
+  } finally {
+    fs.rmSync(path.dirname(mappingPath), { recursive: true, force: true });
+  }
+}
+
+checkReconciliation();
@@ -0,0 +1,42 @@
+#!/usr/bin/env tsx
+
+import path from 'path';
+import { exportMonthlyReports } from '../src/lib/ai/reports/monthlyExport';
+
+/**
+ * Export the monthly budget reports as Markdown, HTML and PDF, e.g. from cron on the first of the month.
+ * Usage: npm run export-reports [-- --period "May 2025"] [--output path/to/reports] [--no-commentary]
+ * Without --period the previous month is exported. Exits with code 1 if the export fails or a report is missing.
+ */
+async function exportReports() {
+  const args = process.argv.slice(2);
+  const getOption = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const output = getOption('--output');
+
+  try {
+    const result = await exportMonthlyReports({
+      period: getOption('--period'),
+      outputDirectory: output ? path.resolve(output) : undefined,
+      commentary: !args.includes('--no-commentary')
+    });
+
+    console.log(`\n📄 ${result.period}: ${result.reports.length} report(s) in ${result.directory}`);
+    result.reports.forEach(report => console.log(`✅ ${report.scope}${report.hasCommentary ? '' : ' (without commentary)'}`));
+
+    result.skipped.forEach(scope => console.log(`⚠️  ${scope}: skipped, too few employees to report on`));
+    result.failed.forEach(failure => console.log(`❌ ${failure.scope}: ${failure.error}`));
+
+    if (result.failed.length > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.log(`❌ ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+exportReports();
@@ -0,0 +1,32 @@
+/**
+ * A named check; it fails by throwing, e.g. from an assert/strict assertion
+ */
+export interface Check {
+  name: string;
+  run: () => void | Promise<void>;
+}
+
+/**
+ * Run checks one after another and report each with ✅ or ❌.
+ * Sets the exit code to 1 if a check fails, so callers can still clean up before the process exits.
+ * @param subject - What the checks cover, used in the summary (e.g., 'Reconciliation')
+ */
+export async function runChecks(subject: string, checks: Check[]): Promise<void> {
+  let failures = 0;
+  for (const check of checks) {
+    try {
+      await check.run();
+      console.log(`✅ ${check.name}`);
+    } catch (error) {
+      failures++;
+      console.log(`❌ ${check.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} ${subject.toLowerCase()} check(s) failed`);
+    process.exitCode = 1;
+    return;
+  }
+  console.log(`\n✅ ${subject} checks passed`);
+}
@@ -1,10 +1,12 @@
 #!/usr/bin/env tsx
 
 import { getExecutiveSummaryAnalysis } from '../src/lib/ai/data/executiveSummaryData';
+import { getBilledHoursSource } from '../src/lib/data/billedHoursSource';
 
 async function testExecutiveSummary() {
   console.log('🧪 Testing Executive Summary Data Analysis Function');
   console.log('='.repeat(60));
+  console.log(`Billed hours source: ${getBilledHoursSource().name}`);
   
   const testPeriod = 'may 2025';
   const testTeams = ['CST III', 'CST IV', 'CST V'];
@@ -28,6 +30,11 @@ async function testExecutiveSummary() {
     console.log(`Total Billed Hours: ${result.totalBilled.toFixed(2)}`);
     console.log(`Budget Variance: ${result.budgetVariance.toFixed(2)} hours`);
     console.log(`Utilization Rate: ${result.utilizationRate.toFixed(2)}%`);
+    if (result.revenue) {
+      console.log(`Budgeted Revenue: ${result.revenue.budgeted.toFixed(2)} ${result.revenue.currency}`);
+      console.log(`Realised Revenue: ${result.revenue.realised.toFixed(2)} ${result.revenue.currency}`);
+      console.log(`Average Hourly Rate: ${result.revenue.averageHourlyRate.toFixed(2)} ${result.revenue.currency}`);
+    }
     
     // Display team summary
     console.log('\n🏢 TEAM SUMMARY');
@@ -0,0 +1,64 @@
+#!/usr/bin/env tsx
+
+import path from 'path';
+import { discoverBudgetFiles } from '../src/lib/data/budgetRepository';
+import { importBudgetFile, formatBudgetImportIssue } from '../src/lib/data/budgetImporter';
+
+/**
+ * Validate budget CSV files before deploying them.
+ * Usage: npm run validate-budget [-- path/to/budget2026.csv ...]
+ * Without arguments all budget*.csv files in the budget directory are validated.
+ * Exits with code 1 if any file has errors.
+ */
+async function validateBudget() {
+  const args = process.argv.slice(2);
+  const files = args.length > 0
+    ? args.map(arg => {
+      const yearMatch = path.basename(arg).match(/(\d{4})/);
+      return { filePath: path.resolve(arg), year: yearMatch ? parseInt(yearMatch[1]) : null };
+    })
+    : discoverBudgetFiles();
+
+  if (files.length === 0) {
+    console.log('No budget files found');
+    return;
+  }
+
+  let errorCount = 0;
+
+  for (const file of files) {
+    console.log(`\n📄 ${file.filePath}`);
+    console.log('─'.repeat(60));
+
+    try {
+      const result = await importBudgetFile(file.filePath, file.year);
+      errorCount += result.errors.length;
+
+      const employees = new Set(result.data.map(item => `${item.team}|${item.employee}`));
+      const totalHours = result.data.reduce((sum, item) => sum + item.totalHours, 0);
+      console.log(`Valid rows: ${result.data.length} (${employees.size} employees, ${totalHours.toFixed(1)} hours)`);
+
+      result.errors.forEach(issue => console.log(`❌ ${formatBudgetImportIssue(issue)}`));
+      result.warnings.forEach(issue => console.log(`⚠️  ${formatBudgetImportIssue(issue)}`));
+
+      if (result.errors.length === 0 && result.warnings.length === 0) {
+        console.log('✅ No issues found');
+      }
+    } catch (error) {
+      errorCount++;
+      console.log(`❌ ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  if (errorCount > 0) {
+    console.log(`\n❌ Validation failed with ${errorCount} error(s)`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ Budget files are valid');
+}
+
+validateBudget().catch(error => {
+  console.error('💥 Unexpected error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,89 @@
+'use client';
+
+import type { ConversationSummary } from '@/lib/data/conversationStore';
+
+interface ConversationSidebarProps {
+  conversations: ConversationSummary[];
+  activeConversationId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const dateFormat = new Intl.DateTimeFormat('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * List of the user's stored conversations, with actions to start, resume, rename and delete them
+ */
+export function ConversationSidebar({ conversations, activeConversationId, onSelect, onNew, onRename, onDelete }: ConversationSidebarProps) {
+  const rename = (conversation: ConversationSummary) => {
+    const title = window.prompt('Rename conversation', conversation.title)?.trim();
+    if (title && title !== conversation.title) {
+      onRename(conversation.id, title);
+    }
+  };
+
+  const remove = (conversation: ConversationSummary) => {
+    if (window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  return (
+    <aside className="hidden md:flex flex-col w-72 shrink-0 bg-white border-r border-blue-100 sticky top-[80px] h-[calc(100vh-80px)]">
+      <div className="p-4">
+        <button
+          type="button"
+          onClick={onNew}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold px-4 py-2 rounded-2xl shadow transition"
+        >
+          + New conversation
+        </button>
+      </div>
+
+      <nav className="flex-1 overflow-y-auto px-2 pb-4">
+        {conversations.length === 0 && (
+          <div className="text-sm text-gray-400 px-3 py-2">No saved conversations yet</div>
+        )}
+        {conversations.map(conversation => (
+          <div
+            key={conversation.id}
+            className={
+              conversation.id === activeConversationId
+                ? 'group flex items-center rounded-xl bg-blue-50 mb-1'
+                : 'group flex items-center rounded-xl hover:bg-gray-50 mb-1'
+            }
+          >
+            <button
+              type="button"
+              onClick={() => onSelect(conversation.id)}
+              className="flex-1 min-w-0 text-left px-3 py-2"
+            >
+              <div className="text-sm font-medium text-gray-800 truncate">{conversation.title}</div>
+              <div className="text-xs text-gray-400">{dateFormat.format(new Date(conversation.updatedAt))}</div>
+            </button>
+            <div className="hidden group-hover:flex items-center pr-2 space-x-1">
+              <button
+                type="button"
+                onClick={() => rename(conversation)}
+                className="text-xs text-gray-500 hover:text-blue-600 px-1"
+                title="Rename"
+              >
+                ✎
+              </button>
+              <button
+                type="button"
+                onClick={() => remove(conversation)}
+                className="text-xs text-gray-500 hover:text-red-600 px-1"
+                title="Delete"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+        ))}
+      </nav>
+    </aside>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import type { ToolError, ToolErrorType } from '@/lib/ai/tools/toolErrors';
+
+const ERROR_TITLES: Record<ToolErrorType, string> = {
+  invalid_period: 'Period not recognised',
+  unknown_team: 'Team not recognised',
+  no_budget_data: 'No budget for this period',
+  database_unavailable: 'Time registration data unavailable',
+  data_unavailable: 'Budget data unavailable',
+  not_authorized: 'Not authorized',
+  insufficient_group_size: 'Group too small to report',
+  internal_error: 'Analysis failed',
+};
+
+/**
+ * Check whether a tool result is a tool error
+ */
+export function isToolError(result: unknown): result is ToolError {
+  return typeof result === 'object' && result !== null && (result as ToolError).error === true && typeof (result as ToolError).errorType === 'string';
+}
+
+/**
+ * Notice for a tool call that failed, shown above the assistant's answer so a failure
+ * is visible even if the answer glosses over it
+ */
+export function ToolErrorNotice({ error }: { error: ToolError }) {
+  const warning = error.errorType === 'not_authorized' || error.errorType === 'insufficient_group_size';
+
+  return (
+    <div
+      className={
+        warning
+          ? 'mb-2 px-3 py-2 rounded-lg border border-amber-200 bg-amber-50 text-amber-800 text-sm'
+          : 'mb-2 px-3 py-2 rounded-lg border border-red-200 bg-red-50 text-red-700 text-sm'
+      }
+    >
+      <div className="font-semibold">⚠️ {ERROR_TITLES[error.errorType] ?? 'Analysis failed'}</div>
+      <div>{error.errorMessage}</div>
+      {error.retryable && <div className="text-xs opacity-70 mt-1">This may work if you ask again later.</div>}
+    </div>
+  );
+}
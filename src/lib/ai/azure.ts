@@ -0,0 +1,53 @@
+import { createAzure } from '@ai-sdk/azure';
+import type { LanguageModel } from 'ai';
+
+/**
+ * Get the Azure OpenAI resource name, extracted from the endpoint URL if not provided separately
+ */
+export function getResourceName(): string | undefined {
+  const resourceName = process.env.AZURE_OPENAI_RESOURCE_NAME;
+  if (resourceName) return resourceName;
+
+  const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
+  if (endpoint) {
+    // Extract resource name from URL like: https://your-resource-name.openai.azure.com
+    const match = endpoint.match(/https:\/\/([^.]+)\.openai\.azure\.com/);
+    return match ? match[1] : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Describe the first missing Azure OpenAI setting, or return null if the configuration is complete
+ */
+export function getMissingAzureConfiguration(): string | null {
+  if (!process.env.AZURE_OPENAI_DEPLOYMENT_MODEL) {
+    return 'AZURE_OPENAI_DEPLOYMENT_MODEL environment variable is required';
+  }
+
+  if (!process.env.AZURE_OPENAI_API_KEY) {
+    return 'AZURE_OPENAI_API_KEY environment variable is required';
+  }
+
+  if (!getResourceName()) {
+    return 'Either AZURE_OPENAI_RESOURCE_NAME or AZURE_OPENAI_ENDPOINT must be provided';
+  }
+
+  return null;
+}
+
+// Configure Azure OpenAI with proper error handling
+const azure = createAzure({
+  resourceName: getResourceName(),
+  apiKey: process.env.AZURE_OPENAI_API_KEY || undefined,
+  apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-02-01',
+});
+
+/**
+ * Get the chat model of the AZURE_OPENAI_DEPLOYMENT_MODEL deployment.
+ * Check getMissingAzureConfiguration first; the model fails on its first call if the configuration is incomplete.
+ */
+export function getChatModel(): LanguageModel {
+  return azure(process.env.AZURE_OPENAI_DEPLOYMENT_MODEL!);
+}
@@ -0,0 +1,15 @@
+/**
+ * Thresholds shared by the analysis tools and the budget report, so their recommendations agree
+ */
+
+// Total hours deviating more than this (%) from budget call for action
+export const BUDGET_VARIANCE_THRESHOLD = 10;
+
+// Teams deviating more than this (%) from budget call for action
+export const TEAM_VARIANCE_THRESHOLD = 15;
+
+// Teams under budget with a billable ratio below this (%) are busy on internal work rather than short of demand
+export const LOW_BILLABLE_RATIO = 70;
+
+// Employees whose billed hours deviate more than this (%) from budget are considered at risk
+export const AT_RISK_VARIANCE_PERCENTAGE = 20;
@@ -0,0 +1,72 @@
+import { getBudgetDataForPeriod } from '@/lib/data/budgetRepository';
+import { proRateBudgetData } from '@/lib/data/budgetProRating';
+import { fetchBilledHoursData } from '@/lib/ai/data/executiveSummaryData';
+import { reconcileEmployees, summarizeReconciliation, ReconciliationResult, ReconciliationSummary } from '@/lib/ai/data/reconciliation';
+import { resolvePeriodRange, PeriodRange } from '@/lib/utils/periodRange';
+import { resolveTeamFilter, getAllTeamsFilter, TeamFilter } from '@/lib/utils/teamMapping';
+
+export interface DataQualityReport {
+  period: string;
+  scope: string;
+  summary: ReconciliationSummary;
+  /** Reconciliation counts per team */
+  teamSummary: Record<string, ReconciliationSummary>;
+  reconciliation: ReconciliationResult;
+}
+
+/**
+ * Group a reconciliation by team and summarise each group
+ */
+function summarizeByTeam(reconciliation: ReconciliationResult): Record<string, ReconciliationSummary> {
+  const teams = new Set([
+    ...reconciliation.matched.map(emp => emp.team),
+    ...reconciliation.unbudgeted.map(emp => emp.team),
+    ...reconciliation.withoutHours.map(emp => emp.team)
+  ]);
+
+  const teamSummary: Record<string, ReconciliationSummary> = {};
+  for (const team of teams) {
+    teamSummary[team] = summarizeReconciliation({
+      matched: reconciliation.matched.filter(emp => emp.team === team),
+      unbudgeted: reconciliation.unbudgeted.filter(emp => emp.team === team),
+      withoutHours: reconciliation.withoutHours.filter(emp => emp.team === team),
+      analysis: [],
+      diagnostics: reconciliation.diagnostics.filter(diagnostic => diagnostic.team === team)
+    });
+  }
+
+  return teamSummary;
+}
+
+/**
+ * Reconcile billed hours with the budget for a period and report the gaps
+ * @param period - Period like "May 2025" or "Q1 2025", or an already parsed range
+ * @param team - Optional team or entity (e.g., 'CST3', 'Denmark'); all teams if omitted
+ * @param asOf - Date billed hours are compared as of; months after it do not count as budgeted
+ * @throws PeriodParseError if the period cannot be parsed
+ * @throws UnknownTeamError if the team cannot be resolved
+ */
+export async function getDataQualityReport(period: string | PeriodRange, team?: string | TeamFilter, asOf: Date = new Date()): Promise<DataQualityReport> {
+  const range = resolvePeriodRange(period);
+  const teamFilter = (typeof team === 'string' ? resolveTeamFilter(team) : team) ?? getAllTeamsFilter();
+
+  try {
+    const [databaseData, budgetData] = await Promise.all([
+      fetchBilledHoursData(range, teamFilter),
+      getBudgetDataForPeriod(range, teamFilter.csvTeamNames)
+    ]);
+
+    const reconciliation = reconcileEmployees(databaseData, proRateBudgetData(budgetData, range, asOf).data, range);
+
+    return {
+      period: range.label,
+      scope: teamFilter.label,
+      summary: summarizeReconciliation(reconciliation),
+      teamSummary: summarizeByTeam(reconciliation),
+      reconciliation
+    };
+  } catch (error) {
+    console.error('Failed to generate data quality report:', error);
+    throw new Error(`Data quality report failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+  }
+}
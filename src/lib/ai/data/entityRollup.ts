@@ -0,0 +1,91 @@
+import type { TeamSummary } from '@/lib/ai/data/executiveSummaryData';
+import { findRegisteredTeam } from '@/lib/data/teamRegistry';
+
+// Entity used for teams that are not in the team registry
+export const UNASSIGNED_ENTITY = 'Unassigned';
+
+export interface RollupMetrics {
+  budgeted: number;
+  billed: number;
+  nonBillable: number;
+  totalHours: number;
+  variance: number;
+  variancePercentage: number;
+  utilizationRate: number;
+  billableRatio: number;
+  employeeCount: number;
+}
+
+export interface EntitySummary extends RollupMetrics {
+  entity: string;
+  country: string | null;
+  currency: string | null;
+  teams: string[];
+}
+
+export interface EntityRollup {
+  entities: Record<string, EntitySummary>;
+  company: RollupMetrics;
+}
+
+/**
+ * Derive variance percentage, utilization rate and billable ratio from summed hours
+ */
+function calculateRollupMetrics(budgeted: number, billed: number, nonBillable: number, employeeCount: number): RollupMetrics {
+  const variance = billed - budgeted;
+  const totalHours = billed + nonBillable;
+
+  return {
+    budgeted,
+    billed,
+    nonBillable,
+    totalHours,
+    variance,
+    variancePercentage: budgeted > 0 ? (variance / budgeted) * 100 : 0,
+    utilizationRate: budgeted > 0 ? (billed / budgeted) * 100 : 0,
+    billableRatio: totalHours > 0 ? (billed / totalHours) * 100 : 0,
+    employeeCount
+  };
+}
+
+/**
+ * Roll the team summary up per legal entity (from the team registry) and company-wide
+ * @param teamSummary - Team summary keyed by team display name (e.g., 'CST III')
+ */
+export function generateEntityRollup(teamSummary: Record<string, TeamSummary>): EntityRollup {
+  const entities: Record<string, EntitySummary> = {};
+
+  for (const [teamName, team] of Object.entries(teamSummary)) {
+    const registeredTeam = findRegisteredTeam(teamName);
+    const entityName = registeredTeam?.entity || UNASSIGNED_ENTITY;
+
+    if (!entities[entityName]) {
+      entities[entityName] = {
+        entity: entityName,
+        country: registeredTeam?.country || null,
+        currency: registeredTeam?.currency || null,
+        teams: [],
+        ...calculateRollupMetrics(0, 0, 0, 0)
+      };
+    }
+
+    const entity = entities[entityName];
+    entity.teams.push(teamName);
+    Object.assign(entity, calculateRollupMetrics(
+      entity.budgeted + team.budgeted,
+      entity.billed + team.billed,
+      entity.nonBillable + team.nonBillable,
+      entity.employeeCount + team.employeeCount
+    ));
+  }
+
+  const teams = Object.values(teamSummary);
+  const company = calculateRollupMetrics(
+    teams.reduce((sum, team) => sum + team.budgeted, 0),
+    teams.reduce((sum, team) => sum + team.billed, 0),
+    teams.reduce((sum, team) => sum + team.nonBillable, 0),
+    teams.reduce((sum, team) => sum + team.employeeCount, 0)
+  );
+
+  return { entities, company };
+}
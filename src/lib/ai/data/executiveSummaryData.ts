@@ -1,151 +1,128 @@
-import { executeQuery } from '@/lib/database/connection';
-import { getBudgetDataForPeriod, ProcessedBudgetData, convertPeriodToCode } from '@/lib/data/csvReader';
-import { extractInitials } from '@/lib/utils/employeeMapping';
-import { formatTeamNameForDisplay } from '@/lib/utils/teamMapping';
-
-export interface DatabaseEmployeeData {
-  EmployeeName: string;
-  EmployeeID_EmployeeNiv1: string;
-  BillableHours: number;
-}
+import { getBilledHoursSource, DatabaseEmployeeData, ProjectHoursData } from '@/lib/data/billedHoursSource';
+import { getBudgetDataForPeriod, ensureBudgetForPeriod } from '@/lib/data/budgetRepository';
+import { ProcessedBudgetData } from '@/lib/data/csvReader';
+import { proRateBudgetData, BudgetProRating } from '@/lib/data/budgetProRating';
+import { resolvePeriodRange, PeriodRange } from '@/lib/utils/periodRange';
+import { generateEntityRollup, EntitySummary } from '@/lib/ai/data/entityRollup';
+import { reconcileEmployees, summarizeReconciliation, ReconciliationSummary } from '@/lib/ai/data/reconciliation';
+import { calculateRevenue, RevenueSummary } from '@/lib/ai/data/revenue';
+import { resolveTeamFilter, getAllTeamsFilter, TeamFilter } from '@/lib/utils/teamMapping';
+
+export type { DatabaseEmployeeData, ProjectHoursData } from '@/lib/data/billedHoursSource';
 
 export interface EmployeeAnalysis {
   initials: string;
   fullName: string;
   team: string;
   budgetedHours: number;
+  /** Billable hours, compared with the budget */
   billedHours: number;
+  /** Internal and other non-billable hours */
+  nonBillableHours: number;
+  totalHours: number;
+  /** Share of total hours that were billable (%) */
+  billableRatio: number;
   variance: number;
   variancePercentage: number;
 }
 
+export interface TeamSummary {
+  budgeted: number;
+  billed: number;
+  nonBillable: number;
+  totalHours: number;
+  billableRatio: number;
+  variance: number;
+  employeeCount: number;
+}
+
 export interface ExecutiveSummaryData {
+  /** Teams covered by the analysis (e.g., 'All Teams', 'CST III' or 'Solitwork Denmark') */
+  scope: string;
   totalBudgeted: number;
   totalBilled: number;
+  totalNonBillable: number;
+  totalHours: number;
   budgetVariance: number;
   utilizationRate: number;
+  /** Share of all logged hours that were billable (%); low utilization with a high internal share means internal load rather than low demand */
+  billableRatio: number;
   employeeAnalysis: EmployeeAnalysis[];
-  teamSummary: Record<string, {
-    budgeted: number;
-    billed: number;
-    variance: number;
-    employeeCount: number;
-  }>;
+  teamSummary: Record<string, TeamSummary>;
+  /** Team summary rolled up per legal entity */
+  entitySummary: Record<string, EntitySummary>;
+  /** Budgeted and realised revenue from the rate card, or null if no rate card or exchange rates are configured */
+  revenue: RevenueSummary | null;
+  /** Data quality counts from matching database employees with budget rows */
+  reconciliation: ReconciliationSummary;
+  /** How the budget was pro-rated to the as-of date, or null for periods that have ended */
+  proRating: BudgetProRating | null;
 }
 
 /**
- * Fetch billed hours data from the database for a specific period
+ * Fetch billed hours data for a specific period from the configured billed hours source
+ * @param period - Period like "May 2025" or "Q1 2025", or an already parsed range
+ * @param teamFilter - Optional team filter; all known teams are included if omitted
+ * @throws PeriodParseError if the period cannot be parsed
  */
-export async function fetchBilledHoursData(period: string): Promise<DatabaseEmployeeData[]> {
-  // Convert period format (e.g., "May 2025" -> "202505")
-  const periodCode = convertPeriodToCode(period);
-  
-  const query = `
-    WITH LatestEntries AS (
-        SELECT
-            e.EmployeeName,
-            e.EmployeeID_EmployeeNiv1,
-            f.Hours,
-            f.IsBillableKey,
-            f.Date,
-            ROW_NUMBER() OVER (PARTITION BY f.DW_ID ORDER BY f.DW_Batch_Created DESC) AS RowNum
-        FROM
-            [PowerBIData].[vPowerBiData_Harvest_Harvest_data_All] f
-        LEFT JOIN
-            [PowerBIData].[DimEmployee_Tabular_Flat] e ON f.EmployeeKey = e.EmployeeKey
-        WHERE
-            f.Hours > 0
-            AND e.EmployeeID_EmployeeNiv1 IN ('CST3', 'CST4', 'CST5')
-    )
-    SELECT
-        EmployeeName,
-        EmployeeID_EmployeeNiv1,
-        SUM(CASE WHEN IsBillableKey = 1 THEN Hours ELSE 0 END) AS BillableHours
-    FROM
-        LatestEntries
-    WHERE
-        RowNum = 1
-        AND Date LIKE @periodCode
-    GROUP BY
-        EmployeeName,
-        EmployeeID_EmployeeNiv1;
-  `;
+export async function fetchBilledHoursData(period: string | PeriodRange, teamFilter?: TeamFilter): Promise<DatabaseEmployeeData[]> {
+  // Convert period to a date range (e.g., "May 2025" -> 20250501-20250601)
+  const range = resolvePeriodRange(period);
+  const source = getBilledHoursSource();
 
   try {
-    const result = await executeQuery<DatabaseEmployeeData>(query, { 
-      periodCode: `${periodCode}%` 
-    });
-    return result.recordset;
+    return await source.fetchBilledHours(range, teamFilter?.databaseTeamNames);
   } catch (error) {
-    console.error('Failed to fetch billed hours data:', error);
-    throw new Error(`Database query failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    console.error(`Failed to fetch billed hours data from ${source.name} source:`, error);
+    throw new Error(`Billed hours query failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
 
 /**
- * Match database employees with CSV budget data
+ * Fetch logged hours per client, project and team for a period from the configured billed hours source
+ * @param period - Period like "May 2025" or "Q1 2025", or an already parsed range
+ * @param teamFilter - Optional team filter; all known teams are included if omitted
+ * @throws PeriodParseError if the period cannot be parsed
  */
-function matchEmployeeData(
-  databaseData: DatabaseEmployeeData[],
-  budgetData: ProcessedBudgetData[]
-): EmployeeAnalysis[] {
-  const analysis: EmployeeAnalysis[] = [];
-
-  for (const dbEmployee of databaseData) {
-    try {
-      // Extract initials from database employee name
-      const initials = extractInitials(dbEmployee.EmployeeName);
-      
-      // Find matching budget data
-      const budgetEntry = budgetData.find(budget => budget.employee === initials);
-      
-      if (budgetEntry) {
-        const budgetedHours = budgetEntry.totalHours;
-        const billedHours = dbEmployee.BillableHours;
-        const variance = billedHours - budgetedHours;
-        const variancePercentage = budgetedHours > 0 ? (variance / budgetedHours) * 100 : 0;
-
-        analysis.push({
-          initials,
-          fullName: dbEmployee.EmployeeName,
-          team: formatTeamNameForDisplay(dbEmployee.EmployeeID_EmployeeNiv1),
-          budgetedHours,
-          billedHours,
-          variance,
-          variancePercentage
-        });
-      } else {
-        console.warn(`No budget data found for employee: ${initials} (${dbEmployee.EmployeeName})`);
-      }
-    } catch (error) {
-      console.error(`Error processing employee ${dbEmployee.EmployeeName}:`, error);
-    }
+export async function fetchProjectHoursData(period: string | PeriodRange, teamFilter?: TeamFilter): Promise<ProjectHoursData[]> {
+  const range = resolvePeriodRange(period);
+  const source = getBilledHoursSource();
+
+  try {
+    return await source.fetchProjectHours(range, teamFilter?.databaseTeamNames);
+  } catch (error) {
+    console.error(`Failed to fetch project hours data from ${source.name} source:`, error);
+    throw new Error(`Project hours query failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
+}
 
-  return analysis;
+/**
+ * Match database employees with CSV budget data.
+ * Budgeted employees without billed hours are included with 0 billed hours.
+ * @param range - Optional period, used to select identity mappings that are active in it
+ */
+export function matchEmployeeData(
+  databaseData: DatabaseEmployeeData[],
+  budgetData: ProcessedBudgetData[],
+  range?: PeriodRange
+): EmployeeAnalysis[] {
+  return reconcileEmployees(databaseData, budgetData, range).analysis;
 }
 
 /**
  * Generate team summary from employee analysis
  */
-function generateTeamSummary(employeeAnalysis: EmployeeAnalysis[]): Record<string, {
-  budgeted: number;
-  billed: number;
-  variance: number;
-  employeeCount: number;
-}> {
-  const teamSummary: Record<string, {
-    budgeted: number;
-    billed: number;
-    variance: number;
-    employeeCount: number;
-  }> = {};
+export function generateTeamSummary(employeeAnalysis: EmployeeAnalysis[]): Record<string, TeamSummary> {
+  const teamSummary: Record<string, TeamSummary> = {};
 
   for (const employee of employeeAnalysis) {
     if (!teamSummary[employee.team]) {
       teamSummary[employee.team] = {
         budgeted: 0,
         billed: 0,
+        nonBillable: 0,
+        totalHours: 0,
+        billableRatio: 0,
         variance: 0,
         employeeCount: 0
       };
@@ -153,47 +130,85 @@ function generateTeamSummary(employeeAnalysis: EmployeeAnalysis[]): Record<strin
 
     teamSummary[employee.team].budgeted += employee.budgetedHours;
     teamSummary[employee.team].billed += employee.billedHours;
+    teamSummary[employee.team].nonBillable += employee.nonBillableHours;
+    teamSummary[employee.team].totalHours += employee.totalHours;
     teamSummary[employee.team].variance += employee.variance;
     teamSummary[employee.team].employeeCount += 1;
   }
 
+  for (const team of Object.values(teamSummary)) {
+    team.billableRatio = team.totalHours > 0 ? (team.billed / team.totalHours) * 100 : 0;
+  }
+
   return teamSummary;
 }
 
 /**
  * Main function to fetch and analyze all data for executive summary
+ * @param period - Period like "May 2025" or "Q1 2025", or an already parsed range
+ * @param team - Optional team or entity (e.g., 'CST3', 'CST III', 'Denmark'), or an already resolved filter;
+ *               all teams in the team registry are analyzed if omitted
+ * @param asOf - Date billed hours are compared as of; the budget of a period in progress is pro-rated to it
+ * @throws PeriodParseError if the period cannot be parsed
+ * @throws UnknownTeamError if the team cannot be resolved
+ * @throws NoBudgetDataError if the budget files have no budget for the period
  */
-export async function getExecutiveSummaryAnalysis(period: string, teamFilter?: string): Promise<ExecutiveSummaryData> {
+export async function getExecutiveSummaryAnalysis(
+  period: string | PeriodRange,
+  team?: string | TeamFilter,
+  asOf: Date = new Date()
+): Promise<ExecutiveSummaryData> {
+  const range = resolvePeriodRange(period);
+  const teamFilter = (typeof team === 'string' ? resolveTeamFilter(team) : team) ?? getAllTeamsFilter();
+
   try {
-    // Fetch data from both sources
-    const [databaseData, processedBudgetData] = await Promise.all([
-      fetchBilledHoursData(period),
-      getBudgetDataForPeriod(period, teamFilter)
+    await ensureBudgetForPeriod(range);
+
+    // Fetch data from both sources, scoped to the requested teams
+    const [databaseData, periodBudgetData] = await Promise.all([
+      fetchBilledHoursData(range, teamFilter),
+      getBudgetDataForPeriod(range, teamFilter.csvTeamNames)
     ]);
 
-    // Match and analyze employee data
-    const employeeAnalysis = matchEmployeeData(databaseData, processedBudgetData);
+    // Compare partial billed hours of a period in progress with the budget share for elapsed working days
+    const { data: processedBudgetData, proRating } = proRateBudgetData(periodBudgetData, range, asOf);
+
+    // Match and analyze employee data; budgeted employees without hours count as 0 billed
+    const reconciliation = reconcileEmployees(databaseData, processedBudgetData, range);
+    const employeeAnalysis = reconciliation.analysis;
 
     // Calculate totals
     const totalBudgeted = employeeAnalysis.reduce((sum, emp) => sum + emp.budgetedHours, 0);
     const totalBilled = employeeAnalysis.reduce((sum, emp) => sum + emp.billedHours, 0);
+    const totalNonBillable = employeeAnalysis.reduce((sum, emp) => sum + emp.nonBillableHours, 0);
+    const totalHours = totalBilled + totalNonBillable;
     const budgetVariance = totalBilled - totalBudgeted;
     const utilizationRate = totalBudgeted > 0 ? (totalBilled / totalBudgeted) * 100 : 0;
+    const billableRatio = totalHours > 0 ? (totalBilled / totalHours) * 100 : 0;
 
     // Generate team summary
     const teamSummary = generateTeamSummary(employeeAnalysis);
+    const { entities: entitySummary } = generateEntityRollup(teamSummary);
 
     return {
+      scope: teamFilter.label,
       totalBudgeted,
       totalBilled,
+      totalNonBillable,
+      totalHours,
       budgetVariance,
       utilizationRate,
+      billableRatio,
       employeeAnalysis,
-      teamSummary
+      teamSummary,
+      entitySummary,
+      revenue: calculateRevenue(employeeAnalysis),
+      reconciliation: summarizeReconciliation(reconciliation),
+      proRating
     };
 
   } catch (error) {
     console.error('Failed to generate executive summary analysis:', error);
-    throw new Error(`Executive summary analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Executive summary analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
\ No newline at end of file
@@ -0,0 +1,258 @@
+import { getBudgetDataForPeriod, ensureBudgetForPeriod } from '@/lib/data/budgetRepository';
+import { findRegisteredTeam } from '@/lib/data/teamRegistry';
+import { createPeriodRange, formatPeriodCode, toPeriodCode } from '@/lib/utils/periodRange';
+import { resolveTeamFilter, getAllTeamsFilter } from '@/lib/utils/teamMapping';
+import { formatIsoDate } from '@/lib/utils/workingDays';
+import { getMonthlyTeamSummaries } from '@/lib/ai/data/trendData';
+import { UNASSIGNED_ENTITY } from '@/lib/ai/data/entityRollup';
+import type { TeamSummary } from '@/lib/ai/data/executiveSummaryData';
+
+// Number of most recent closed months averaged by the run-rate method
+const RUN_RATE_MONTHS = 3;
+
+/**
+ * How billed hours are projected for the months that are not closed yet
+ * - budget: remaining months land exactly on budget
+ * - run-rate: remaining months repeat the average billed hours of the last three closed months
+ * - seasonal: remaining months follow the budget's monthly profile, scaled by the year-to-date utilization
+ */
+export type ForecastMethod = 'budget' | 'run-rate' | 'seasonal';
+
+export interface ForecastMetrics {
+  fullYearBudget: number;
+  /** Billed hours in the closed months */
+  actualBilled: number;
+  /** Budgeted hours in the closed months */
+  actualBudgeted: number;
+  /** Budgeted hours in the months that are not closed yet */
+  remainingBudget: number;
+  /** Projected billed hours in the months that are not closed yet */
+  projectedRemaining: number;
+  /** Actual plus projected billed hours for the full year */
+  landingEstimate: number;
+  /** Landing estimate minus full-year budget (negative means below budget) */
+  gapToBudget: number;
+  gapPercentage: number;
+  /** Billed hours needed per remaining month to reach the full-year budget, or null if the year is closed */
+  requiredMonthlyBilled: number | null;
+}
+
+export interface TeamForecast extends ForecastMetrics {
+  team: string;
+  entity: string;
+}
+
+export interface EntityForecast extends ForecastMetrics {
+  entity: string;
+  teams: string[];
+}
+
+export interface MonthlyForecast {
+  month: string;
+  label: string;
+  status: 'actual' | 'forecast';
+  budgeted: number;
+  billed: number;
+}
+
+export interface ForecastData {
+  year: number;
+  scope: string;
+  method: ForecastMethod;
+  /** Method actually used; falls back to 'budget' when there are no closed months to extrapolate from */
+  methodUsed: ForecastMethod;
+  /** Date the forecast was made as of (YYYY-MM-DD); months before its month are closed */
+  asOf: string;
+  closedMonths: number;
+  remainingMonths: number;
+  company: ForecastMetrics;
+  entities: Record<string, EntityForecast>;
+  teams: Record<string, TeamForecast>;
+  /** Company-wide budgeted and actual or projected billed hours per month */
+  monthly: MonthlyForecast[];
+}
+
+interface TeamForecastInput {
+  budgetByMonth: Map<string, number>;
+  billedByMonth: Map<string, number>;
+}
+
+/**
+ * Derive gap and required run-rate from summed hours
+ */
+function calculateForecastMetrics(
+  fullYearBudget: number,
+  actualBilled: number,
+  actualBudgeted: number,
+  projectedRemaining: number,
+  remainingMonths: number
+): ForecastMetrics {
+  const landingEstimate = actualBilled + projectedRemaining;
+  const gapToBudget = landingEstimate - fullYearBudget;
+
+  return {
+    fullYearBudget,
+    actualBilled,
+    actualBudgeted,
+    remainingBudget: fullYearBudget - actualBudgeted,
+    projectedRemaining,
+    landingEstimate,
+    gapToBudget,
+    gapPercentage: fullYearBudget > 0 ? (gapToBudget / fullYearBudget) * 100 : 0,
+    requiredMonthlyBilled: remainingMonths > 0 ? Math.max(0, fullYearBudget - actualBilled) / remainingMonths : null
+  };
+}
+
+function sumForecastMetrics(forecasts: ForecastMetrics[], remainingMonths: number): ForecastMetrics {
+  const sum = (select: (forecast: ForecastMetrics) => number) => forecasts.reduce((total, forecast) => total + select(forecast), 0);
+
+  return calculateForecastMetrics(
+    sum(forecast => forecast.fullYearBudget),
+    sum(forecast => forecast.actualBilled),
+    sum(forecast => forecast.actualBudgeted),
+    sum(forecast => forecast.projectedRemaining),
+    remainingMonths
+  );
+}
+
+/**
+ * Project billed hours for each open month of one team
+ */
+function projectOpenMonths(input: TeamForecastInput, closedMonths: string[], openMonths: string[], method: ForecastMethod): Map<string, number> {
+  const budgetFor = (month: string) => input.budgetByMonth.get(month) || 0;
+  const billedFor = (month: string) => input.billedByMonth.get(month) || 0;
+  const projection = new Map<string, number>();
+
+  if (method === 'run-rate') {
+    const recentMonths = closedMonths.slice(-RUN_RATE_MONTHS);
+    const runRate = recentMonths.reduce((sum, month) => sum + billedFor(month), 0) / recentMonths.length;
+    openMonths.forEach(month => projection.set(month, runRate));
+  } else if (method === 'seasonal') {
+    const closedBudget = closedMonths.reduce((sum, month) => sum + budgetFor(month), 0);
+    const closedBilled = closedMonths.reduce((sum, month) => sum + billedFor(month), 0);
+    const utilization = closedBudget > 0 ? closedBilled / closedBudget : 1;
+    openMonths.forEach(month => projection.set(month, budgetFor(month) * utilization));
+  } else {
+    openMonths.forEach(month => projection.set(month, budgetFor(month)));
+  }
+
+  return projection;
+}
+
+/**
+ * Forecast where the year will land: actual billed hours for closed months plus a projection
+ * for the remaining months, per team, per legal entity and company-wide
+ * @param year - Budget year to forecast (e.g., 2025)
+ * @param method - Projection method for the remaining months
+ * @param team - Optional team or legal entity (e.g., 'CST3', 'Denmark'); all teams if omitted
+ * @param asOf - Date the forecast is made as of; months before its month count as closed
+ * @throws UnknownTeamError if the team cannot be resolved
+ * @throws NoBudgetDataError if the budget files have no budget for the period
+ */
+export async function getForecastAnalysis(
+  year: number,
+  method: ForecastMethod = 'budget',
+  team?: string,
+  asOf: Date = new Date()
+): Promise<ForecastData> {
+  const teamFilter = team ? resolveTeamFilter(team) : getAllTeamsFilter();
+  const yearRange = createPeriodRange(toPeriodCode(year, 1), toPeriodCode(year, 12), 'year', String(year));
+
+  const currentMonth = toPeriodCode(asOf.getFullYear(), asOf.getMonth() + 1);
+  const closedMonths = yearRange.monthCodes.filter(month => month < currentMonth);
+  const openMonths = yearRange.monthCodes.filter(month => month >= currentMonth);
+  const methodUsed: ForecastMethod = closedMonths.length > 0 ? method : 'budget';
+
+  try {
+    await ensureBudgetForPeriod(yearRange);
+
+    const [budgetData, actualSummaries] = await Promise.all([
+      getBudgetDataForPeriod(yearRange, teamFilter.csvTeamNames),
+      closedMonths.length > 0
+        ? getMonthlyTeamSummaries(createPeriodRange(closedMonths[0], closedMonths[closedMonths.length - 1]), teamFilter, asOf)
+        : Promise.resolve(new Map<string, Record<string, TeamSummary>>())
+    ]);
+
+    // Collect budget and actual billed hours per team and month
+    const inputs = new Map<string, TeamForecastInput>();
+    const getInput = (teamName: string) => {
+      if (!inputs.has(teamName)) {
+        inputs.set(teamName, { budgetByMonth: new Map(), billedByMonth: new Map() });
+      }
+      return inputs.get(teamName)!;
+    };
+
+    for (const item of budgetData) {
+      const { budgetByMonth } = getInput(item.team);
+      for (const month of yearRange.monthCodes) {
+        budgetByMonth.set(month, (budgetByMonth.get(month) || 0) + (item.monthlyHours[month] || 0));
+      }
+    }
+    for (const [month, summary] of actualSummaries) {
+      for (const [teamName, teamSummary] of Object.entries(summary)) {
+        getInput(teamName).billedByMonth.set(month, teamSummary.billed);
+      }
+    }
+
+    const teams: Record<string, TeamForecast> = {};
+    const monthly: MonthlyForecast[] = yearRange.monthCodes.map(month => ({
+      month,
+      label: formatPeriodCode(month),
+      status: closedMonths.includes(month) ? 'actual' : 'forecast',
+      budgeted: 0,
+      billed: 0
+    }));
+
+    for (const [teamName, input] of Array.from(inputs.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+      const projection = projectOpenMonths(input, closedMonths, openMonths, methodUsed);
+      const sumMonths = (months: string[], values: Map<string, number>) => months.reduce((sum, month) => sum + (values.get(month) || 0), 0);
+
+      teams[teamName] = {
+        team: teamName,
+        entity: findRegisteredTeam(teamName)?.entity || UNASSIGNED_ENTITY,
+        ...calculateForecastMetrics(
+          sumMonths(yearRange.monthCodes, input.budgetByMonth),
+          sumMonths(closedMonths, input.billedByMonth),
+          sumMonths(closedMonths, input.budgetByMonth),
+          sumMonths(openMonths, projection),
+          openMonths.length
+        )
+      };
+
+      monthly.forEach(point => {
+        point.budgeted += input.budgetByMonth.get(point.month) || 0;
+        point.billed += (point.status === 'actual' ? input.billedByMonth : projection).get(point.month) || 0;
+      });
+    }
+
+    const entities: Record<string, EntityForecast> = {};
+    const teamsByEntity = new Map<string, TeamForecast[]>();
+    Object.values(teams).forEach(teamForecast => {
+      teamsByEntity.set(teamForecast.entity, [...(teamsByEntity.get(teamForecast.entity) || []), teamForecast]);
+    });
+    for (const [entityName, entityTeams] of teamsByEntity) {
+      entities[entityName] = {
+        entity: entityName,
+        teams: entityTeams.map(teamForecast => teamForecast.team),
+        ...sumForecastMetrics(entityTeams, openMonths.length)
+      };
+    }
+
+    return {
+      year,
+      scope: teamFilter.label,
+      method,
+      methodUsed,
+      asOf: formatIsoDate(asOf),
+      closedMonths: closedMonths.length,
+      remainingMonths: openMonths.length,
+      company: sumForecastMetrics(Object.values(teams), openMonths.length),
+      entities,
+      teams,
+      monthly
+    };
+  } catch (error) {
+    console.error('Failed to generate forecast:', error);
+    throw new Error(`Forecast failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+  }
+}
@@ -0,0 +1,199 @@
+import { getBudgetDataForPeriod, ensureBudgetForPeriod } from '@/lib/data/budgetRepository';
+import { proRateBudgetData } from '@/lib/data/budgetProRating';
+import { fetchProjectHoursData, ProjectHoursData } from '@/lib/ai/data/executiveSummaryData';
+import { resolvePeriodRange, getPreviousPeriodRange, PeriodRange } from '@/lib/utils/periodRange';
+import { resolveTeamFilter, getAllTeamsFilter, formatTeamNameForDisplay, TeamFilter } from '@/lib/utils/teamMapping';
+
+export type DrillDownGrouping = 'project' | 'client';
+export type DrillDownSort = 'hours' | 'change';
+
+/**
+ * Hours logged on one project or client. Only aggregates, so no employee can be identified.
+ */
+export interface ProjectContribution {
+  client: string;
+  /** Project name, or null when grouped by client */
+  project: string | null;
+  teams: string[];
+  billableHours: number;
+  nonBillableHours: number;
+  totalHours: number;
+  /** Share of the billable hours of all projects in scope (%) */
+  billableShare: number;
+  /** Billable hours in the previous period of equal length */
+  previousBillableHours: number;
+  billableChange: number;
+  /** Number of projects of the client (1 when grouped by project) */
+  projectCount: number;
+  /** Number of employees who logged hours, only when grouped by project */
+  employeeCount: number | null;
+}
+
+export interface ProjectDrillDownData {
+  period: string;
+  previousPeriod: string;
+  scope: string;
+  groupBy: DrillDownGrouping;
+  sortBy: DrillDownSort;
+  totals: {
+    budgeted: number;
+    billed: number;
+    nonBillable: number;
+    variance: number;
+    variancePercentage: number;
+    previousBilled: number;
+    billedChange: number;
+  };
+  /** Top projects or clients */
+  contributors: ProjectContribution[];
+  /** Projects or clients below the top list, summed */
+  other: {
+    count: number;
+    billableHours: number;
+    nonBillableHours: number;
+    billableChange: number;
+  };
+}
+
+type ProjectGroupTotals = Omit<ProjectContribution, 'billableShare' | 'billableChange'>;
+
+function groupKey(row: ProjectHoursData, groupBy: DrillDownGrouping): string {
+  return groupBy === 'client' ? row.ClientName : `${row.ClientName}|${row.ProjectName}`;
+}
+
+/**
+ * Sum project rows of the current and previous period per project or client
+ */
+function groupProjectHours(
+  current: ProjectHoursData[],
+  previous: ProjectHoursData[],
+  groupBy: DrillDownGrouping
+): ProjectGroupTotals[] {
+  const groups = new Map<string, ProjectGroupTotals>();
+  const projectsByGroup = new Map<string, Set<string>>();
+
+  const getGroup = (row: ProjectHoursData) => {
+    const key = groupKey(row, groupBy);
+    if (!groups.has(key)) {
+      groups.set(key, {
+        client: row.ClientName,
+        project: groupBy === 'project' ? row.ProjectName : null,
+        teams: [],
+        billableHours: 0,
+        nonBillableHours: 0,
+        totalHours: 0,
+        previousBillableHours: 0,
+        projectCount: 0,
+        employeeCount: groupBy === 'project' ? 0 : null
+      });
+      projectsByGroup.set(key, new Set());
+    }
+    return groups.get(key)!;
+  };
+
+  for (const row of current) {
+    const group = getGroup(row);
+    const team = formatTeamNameForDisplay(row.EmployeeID_EmployeeNiv1);
+    if (!group.teams.includes(team)) {
+      group.teams.push(team);
+    }
+
+    group.billableHours += row.BillableHours;
+    group.nonBillableHours += row.NonBillableHours;
+    group.totalHours += row.TotalHours;
+    const projects = projectsByGroup.get(groupKey(row, groupBy))!;
+    projects.add(row.ProjectName);
+    group.projectCount = projects.size;
+    // Employees belong to one team, so the per-team counts of a project add up
+    if (group.employeeCount !== null) {
+      group.employeeCount += row.EmployeeCount;
+    }
+  }
+
+  for (const row of previous) {
+    getGroup(row).previousBillableHours += row.BillableHours;
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Break the billed hours of a team and period down by project or client, to explain which work drove the variance.
+ * Each project or client is compared with the previous period of equal length.
+ * @param period - Period like "May 2025" or "Q1 2025", or an already parsed range
+ * @param team - Optional team or entity (e.g., 'CST3', 'Denmark'); all teams if omitted
+ * @param groupBy - Group by 'project' (default) or 'client'
+ * @param limit - Number of top projects or clients to return
+ * @param sortBy - Rank by billable hours ('hours', default) or by absolute change against the previous period ('change')
+ * @param asOf - Date billed hours are compared as of; the budget of a period in progress is pro-rated to it
+ * @throws PeriodParseError if the period cannot be parsed
+ * @throws UnknownTeamError if the team cannot be resolved
+ * @throws NoBudgetDataError if the budget files have no budget for the period
+ */
+export async function getProjectDrillDownAnalysis(
+  period: string | PeriodRange,
+  team?: string | TeamFilter,
+  groupBy: DrillDownGrouping = 'project',
+  limit: number = 10,
+  sortBy: DrillDownSort = 'hours',
+  asOf: Date = new Date()
+): Promise<ProjectDrillDownData> {
+  const range = resolvePeriodRange(period);
+  const previousRange = getPreviousPeriodRange(range);
+  const teamFilter = (typeof team === 'string' ? resolveTeamFilter(team) : team) ?? getAllTeamsFilter();
+
+  try {
+    await ensureBudgetForPeriod(range);
+
+    const [currentHours, previousHours, budgetData] = await Promise.all([
+      fetchProjectHoursData(range, teamFilter),
+      fetchProjectHoursData(previousRange, teamFilter),
+      getBudgetDataForPeriod(range, teamFilter.csvTeamNames)
+    ]);
+
+    const budgeted = proRateBudgetData(budgetData, range, asOf).data.reduce((sum, item) => sum + item.totalHours, 0);
+    const billed = currentHours.reduce((sum, row) => sum + row.BillableHours, 0);
+    const nonBillable = currentHours.reduce((sum, row) => sum + row.NonBillableHours, 0);
+    const previousBilled = previousHours.reduce((sum, row) => sum + row.BillableHours, 0);
+
+    const ranked: ProjectContribution[] = groupProjectHours(currentHours, previousHours, groupBy)
+      .map(group => ({
+        ...group,
+        billableShare: billed > 0 ? (group.billableHours / billed) * 100 : 0,
+        billableChange: group.billableHours - group.previousBillableHours
+      }))
+      .sort((a, b) => sortBy === 'change'
+        ? Math.abs(b.billableChange) - Math.abs(a.billableChange)
+        : b.billableHours - a.billableHours || b.nonBillableHours - a.nonBillableHours);
+
+    const contributors = ranked.slice(0, limit);
+    const rest = ranked.slice(limit);
+
+    return {
+      period: range.label,
+      previousPeriod: previousRange.label,
+      scope: teamFilter.label,
+      groupBy,
+      sortBy,
+      totals: {
+        budgeted,
+        billed,
+        nonBillable,
+        variance: billed - budgeted,
+        variancePercentage: budgeted > 0 ? ((billed - budgeted) / budgeted) * 100 : 0,
+        previousBilled,
+        billedChange: billed - previousBilled
+      },
+      contributors,
+      other: {
+        count: rest.length,
+        billableHours: rest.reduce((sum, group) => sum + group.billableHours, 0),
+        nonBillableHours: rest.reduce((sum, group) => sum + group.nonBillableHours, 0),
+        billableChange: rest.reduce((sum, group) => sum + group.billableChange, 0)
+      }
+    };
+  } catch (error) {
+    console.error('Failed to generate project drill-down:', error);
+    throw new Error(`Project drill-down failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+  }
+}
@@ -0,0 +1,299 @@
+import type { DatabaseEmployeeData, EmployeeAnalysis } from '@/lib/ai/data/executiveSummaryData';
+import type { ProcessedBudgetData } from '@/lib/data/csvReader';
+import { resolveEmployeeIdentity } from '@/lib/data/employeeIdentities';
+import { formatTeamNameForDisplay } from '@/lib/utils/teamMapping';
+import { PeriodRange } from '@/lib/utils/periodRange';
+
+/**
+ * Employee with billed hours in the database but no budget row for the period
+ */
+export interface UnbudgetedEmployee {
+  /** Initials parsed from the database name, or null if the name could not be parsed */
+  initials: string | null;
+  fullName: string;
+  team: string;
+  billedHours: number;
+  nonBillableHours: number;
+}
+
+/**
+ * Employee with budgeted hours for the period but no billed hours in the database
+ */
+export interface EmployeeWithoutHours {
+  initials: string;
+  team: string;
+  budgetedHours: number;
+}
+
+/**
+ * Identity matching problem for a database employee. Messages never contain the employee name,
+ * so they can be passed to the model as they are.
+ * - unmapped: no identity mapping entry, matched by parsing initials from the name (informational)
+ * - ambiguous_mapping: several identity mapping entries match the employee
+ * - ambiguous_budget: the initials are only budgeted in other teams than the employee's team, and no identity
+ *   mapping entry names the team the employee is budgeted in
+ * - merged_identity: several database employees resolve to the same budget row and their hours are combined;
+ *   expected for mapped aliases such as a renamed employee (informational), a warning for parsed initials
+ * - unresolved: no identity mapping entry and no initials in the name
+ */
+export interface IdentityDiagnostic {
+  type: 'unmapped' | 'ambiguous_mapping' | 'ambiguous_budget' | 'merged_identity' | 'unresolved';
+  severity: 'info' | 'warning';
+  databaseName: string;
+  team: string;
+  message: string;
+}
+
+export interface ReconciliationResult {
+  /** Employees present in both sources */
+  matched: EmployeeAnalysis[];
+  /** Employees in the database without a budget row */
+  unbudgeted: UnbudgetedEmployee[];
+  /** Employees with budgeted hours but no billed hours */
+  withoutHours: EmployeeWithoutHours[];
+  /** Matched employees plus budgeted employees without hours (as 0 billed), used for totals */
+  analysis: EmployeeAnalysis[];
+  /** Identity matching problems, for the finance team to fix in the mapping or budget file */
+  diagnostics: IdentityDiagnostic[];
+}
+
+/**
+ * Summary counts of a reconciliation, included in analysis results
+ */
+export interface ReconciliationSummary {
+  matchedCount: number;
+  unbudgetedCount: number;
+  unbudgetedBilledHours: number;
+  withoutHoursCount: number;
+  withoutHoursBudgetedHours: number;
+  /** Number of warning-level identity diagnostics (ambiguous or unresolved employees) */
+  identityWarningCount: number;
+}
+
+function createEmployeeAnalysis(
+  initials: string,
+  fullName: string,
+  team: string,
+  budgetedHours: number,
+  billedHours: number,
+  nonBillableHours: number = 0
+): EmployeeAnalysis {
+  const variance = billedHours - budgetedHours;
+  const totalHours = billedHours + nonBillableHours;
+
+  return {
+    initials,
+    fullName,
+    team,
+    budgetedHours,
+    billedHours,
+    nonBillableHours,
+    totalHours,
+    billableRatio: totalHours > 0 ? (billedHours / totalHours) * 100 : 0,
+    variance,
+    variancePercentage: budgetedHours > 0 ? (variance / budgetedHours) * 100 : 0
+  };
+}
+
+interface BudgetEmployee {
+  initials: string;
+  team: string;
+  budgetedHours: number;
+}
+
+/**
+ * Sum budget rows per employee and team, since an employee can have several task rows.
+ * The same initials can appear in several teams (e.g., across entities).
+ */
+function aggregateBudgetByEmployee(budgetData: ProcessedBudgetData[]): Map<string, BudgetEmployee[]> {
+  const budgetByEmployee = new Map<string, BudgetEmployee[]>();
+
+  for (const budget of budgetData) {
+    const entries = budgetByEmployee.get(budget.employee) || [];
+    const existing = entries.find(entry => entry.team === budget.team);
+
+    if (existing) {
+      existing.budgetedHours += budget.totalHours;
+    } else {
+      entries.push({ initials: budget.employee, team: budget.team, budgetedHours: budget.totalHours });
+      budgetByEmployee.set(budget.employee, entries);
+    }
+  }
+
+  return budgetByEmployee;
+}
+
+/**
+ * Database employees resolved to one budget row, with their hours added up
+ */
+interface MatchedIdentity {
+  initials: string;
+  budgetEntry: BudgetEmployee;
+  databaseNames: string[];
+  billedHours: number;
+  nonBillableHours: number;
+  /** Whether every database employee was matched through the identity mapping */
+  allMapped: boolean;
+}
+
+/**
+ * Reconcile database employees with CSV budget data into matched employees,
+ * employees without a budget and budgeted employees without billed hours.
+ * Employees are matched through the identity mapping first, then by initials parsed from the name.
+ * Database employees resolving to the same budget row (e.g., under an old and a new name) are combined,
+ * so their budget is counted once. A budget row of another team is only matched when the identity
+ * mapping names that team as the employee's budget team.
+ * @param range - Optional period, used to select identity mappings that are active in it
+ */
+export function reconcileEmployees(
+  databaseData: DatabaseEmployeeData[],
+  budgetData: ProcessedBudgetData[],
+  range?: PeriodRange
+): ReconciliationResult {
+  const budgetByEmployee = aggregateBudgetByEmployee(budgetData);
+  const matchedIdentities = new Map<BudgetEmployee, MatchedIdentity>();
+
+  const unbudgeted: UnbudgetedEmployee[] = [];
+  const diagnostics: IdentityDiagnostic[] = [];
+
+  for (const dbEmployee of databaseData) {
+    const team = formatTeamNameForDisplay(dbEmployee.EmployeeID_EmployeeNiv1);
+    const identity = resolveEmployeeIdentity(dbEmployee.EmployeeName, dbEmployee.EmployeeID_EmployeeNiv1, range);
+
+    let initials: string | null = null;
+    let budgetEntry: BudgetEmployee | undefined;
+
+    if (identity.status === 'mapped' || identity.status === 'fallback') {
+      initials = identity.budgetInitials;
+
+      if (identity.status === 'fallback') {
+        diagnostics.push({
+          type: 'unmapped',
+          severity: 'info',
+          databaseName: dbEmployee.EmployeeName,
+          team,
+          message: `No identity mapping, matched by initials ${initials}`
+        });
+      }
+
+      // Match the budget row of the employee's own team, or of the budget team named in the identity mapping.
+      // Initials budgeted only in other teams may belong to someone else (e.g., duplicate initials across entities).
+      const budgetEntries = budgetByEmployee.get(initials) || [];
+      const budgetTeam = identity.status === 'mapped' ? identity.budgetTeam?.trim().toUpperCase() : undefined;
+      budgetEntry = budgetTeam
+        ? budgetEntries.find(entry => entry.team.toUpperCase() === budgetTeam)
+        : budgetEntries.find(entry => entry.team === team);
+
+      if (!budgetEntry && budgetEntries.length > 0) {
+        diagnostics.push({
+          type: 'ambiguous_budget',
+          severity: 'warning',
+          databaseName: dbEmployee.EmployeeName,
+          team,
+          message: `Initials ${initials} are budgeted in ${budgetEntries.map(entry => entry.team).join(', ')} but the employee is in ${team}; add an identity mapping with a budget team if this is the same employee`
+        });
+      }
+    } else if (identity.status === 'ambiguous') {
+      diagnostics.push({
+        type: 'ambiguous_mapping',
+        severity: 'warning',
+        databaseName: dbEmployee.EmployeeName,
+        team,
+        message: `Employee matches several identity mappings: ${identity.candidates.join(', ')}`
+      });
+    } else {
+      console.error(`Error processing employee ${dbEmployee.EmployeeName}: ${identity.reason}`);
+      diagnostics.push({
+        type: 'unresolved',
+        severity: 'warning',
+        databaseName: dbEmployee.EmployeeName,
+        team,
+        message: 'No identity mapping and no initials in the database name'
+      });
+    }
+
+    if (initials && budgetEntry) {
+      const existing = matchedIdentities.get(budgetEntry);
+      if (existing) {
+        existing.databaseNames.push(dbEmployee.EmployeeName);
+        existing.billedHours += dbEmployee.BillableHours;
+        existing.nonBillableHours += dbEmployee.NonBillableHours;
+        existing.allMapped = existing.allMapped && identity.status === 'mapped';
+      } else {
+        matchedIdentities.set(budgetEntry, {
+          initials,
+          budgetEntry,
+          databaseNames: [dbEmployee.EmployeeName],
+          billedHours: dbEmployee.BillableHours,
+          nonBillableHours: dbEmployee.NonBillableHours,
+          allMapped: identity.status === 'mapped'
+        });
+      }
+    } else {
+      console.warn(`No budget data found for employee: ${initials} (${dbEmployee.EmployeeName})`);
+      unbudgeted.push({
+        initials,
+        fullName: dbEmployee.EmployeeName,
+        team,
+        billedHours: dbEmployee.BillableHours,
+        nonBillableHours: dbEmployee.NonBillableHours
+      });
+    }
+  }
+
+  // One analysis row per budget row, so the budget of an employee with several database names is counted once
+  const matched: EmployeeAnalysis[] = [];
+  for (const identity of matchedIdentities.values()) {
+    const { budgetEntry, databaseNames } = identity;
+    if (databaseNames.length > 1) {
+      diagnostics.push({
+        type: 'merged_identity',
+        severity: identity.allMapped ? 'info' : 'warning',
+        databaseName: databaseNames[0],
+        team: budgetEntry.team,
+        message: `${databaseNames.length} database employees match budget initials ${identity.initials} in ${budgetEntry.team}; their hours are combined`
+      });
+    }
+    matched.push(createEmployeeAnalysis(
+      identity.initials,
+      databaseNames[0],
+      budgetEntry.team,
+      budgetEntry.budgetedHours,
+      identity.billedHours,
+      identity.nonBillableHours
+    ));
+  }
+
+  const withoutHours: EmployeeWithoutHours[] = [];
+  for (const budgetEntries of budgetByEmployee.values()) {
+    for (const budgetEntry of budgetEntries) {
+      // Employees budgeted at 0 hours are not expected to log time
+      if (!matchedIdentities.has(budgetEntry) && budgetEntry.budgetedHours > 0) {
+        withoutHours.push({ initials: budgetEntry.initials, team: budgetEntry.team, budgetedHours: budgetEntry.budgetedHours });
+      }
+    }
+  }
+
+  const analysis = [
+    ...matched,
+    ...withoutHours.map(employee =>
+      createEmployeeAnalysis(employee.initials, employee.initials, employee.team, employee.budgetedHours, 0)
+    )
+  ];
+
+  return { matched, unbudgeted, withoutHours, analysis, diagnostics };
+}
+
+/**
+ * Summarise a reconciliation into counts and hours
+ */
+export function summarizeReconciliation(reconciliation: ReconciliationResult): ReconciliationSummary {
+  return {
+    matchedCount: reconciliation.matched.length,
+    unbudgetedCount: reconciliation.unbudgeted.length,
+    unbudgetedBilledHours: reconciliation.unbudgeted.reduce((sum, emp) => sum + emp.billedHours, 0),
+    withoutHoursCount: reconciliation.withoutHours.length,
+    withoutHoursBudgetedHours: reconciliation.withoutHours.reduce((sum, emp) => sum + emp.budgetedHours, 0),
+    identityWarningCount: reconciliation.diagnostics.filter(diagnostic => diagnostic.severity === 'warning').length
+  };
+}
@@ -0,0 +1,115 @@
+import type { EmployeeAnalysis } from '@/lib/ai/data/executiveSummaryData';
+import { UNASSIGNED_ENTITY } from '@/lib/ai/data/entityRollup';
+import { findRegisteredTeam } from '@/lib/data/teamRegistry';
+import { resolveHourlyRate, convertCurrency, getExchangeRates, getRateCard } from '@/lib/data/rateCard';
+
+export interface RevenueMetrics {
+  currency: string;
+  /** Budgeted hours valued at the hourly rates */
+  budgeted: number;
+  /** Billed hours valued at the hourly rates */
+  realised: number;
+  variance: number;
+  variancePercentage: number;
+  /** Realised revenue per billed hour */
+  averageHourlyRate: number;
+}
+
+export interface RevenueSummary extends RevenueMetrics {
+  /** Date the exchange rates were taken, if given in the rates file */
+  exchangeRatesAsOf: string | null;
+  /** Revenue per team in the team's currency */
+  teams: Record<string, RevenueMetrics>;
+  /** Revenue per legal entity in the entity's currency */
+  entities: Record<string, RevenueMetrics>;
+  /** Employees without an hourly rate or exchange rate, left out of the revenue figures */
+  unpriced: {
+    employeeCount: number;
+    budgetedHours: number;
+    billedHours: number;
+  };
+}
+
+interface RevenueTotals {
+  currency: string;
+  budgeted: number;
+  realised: number;
+  billedHours: number;
+}
+
+function calculateRevenueMetrics({ currency, budgeted, realised, billedHours }: RevenueTotals): RevenueMetrics {
+  const variance = realised - budgeted;
+
+  return {
+    currency,
+    budgeted,
+    realised,
+    variance,
+    variancePercentage: budgeted > 0 ? (variance / budgeted) * 100 : 0,
+    averageHourlyRate: billedHours > 0 ? realised / billedHours : 0
+  };
+}
+
+function addRevenue(totals: Record<string, RevenueTotals>, key: string, currency: string, budgeted: number, realised: number, billedHours: number): void {
+  if (!totals[key]) {
+    totals[key] = { currency, budgeted: 0, realised: 0, billedHours: 0 };
+  }
+
+  totals[key].budgeted += budgeted;
+  totals[key].realised += realised;
+  totals[key].billedHours += billedHours;
+}
+
+/**
+ * Value budgeted and billed hours at the rate card's hourly rates, per team and entity in their own
+ * currency and company-wide in the reporting currency of the exchange rates file
+ * @param employeeAnalysis - Matched employees, e.g. from reconcileEmployees
+ * @returns The revenue summary, or null if the rate card or exchange rates file is not configured
+ */
+export function calculateRevenue(employeeAnalysis: EmployeeAnalysis[]): RevenueSummary | null {
+  const exchangeRates = getExchangeRates();
+  if (!exchangeRates || !getRateCard()) {
+    return null;
+  }
+
+  const { reportingCurrency } = exchangeRates;
+  const teams: Record<string, RevenueTotals> = {};
+  const entities: Record<string, RevenueTotals> = {};
+  const company: RevenueTotals = { currency: reportingCurrency, budgeted: 0, realised: 0, billedHours: 0 };
+  const unpriced = { employeeCount: 0, budgetedHours: 0, billedHours: 0 };
+
+  for (const employee of employeeAnalysis) {
+    const rate = resolveHourlyRate(employee.initials, employee.team);
+    const budgeted = rate ? employee.budgetedHours * rate.hourlyRate : 0;
+    const realised = rate ? employee.billedHours * rate.hourlyRate : 0;
+    const reportingBudgeted = rate ? convertCurrency(budgeted, rate.currency, reportingCurrency) : null;
+    const reportingRealised = rate ? convertCurrency(realised, rate.currency, reportingCurrency) : null;
+
+    if (!rate || reportingBudgeted === null || reportingRealised === null) {
+      console.warn(`No hourly rate or exchange rate for employee ${employee.initials} (${employee.team}) - left out of revenue`);
+      unpriced.employeeCount += 1;
+      unpriced.budgetedHours += employee.budgetedHours;
+      unpriced.billedHours += employee.billedHours;
+      continue;
+    }
+
+    // Hourly rates are in the currency of the team's entity, so teams and entities need no conversion
+    const entity = findRegisteredTeam(employee.team)?.entity || UNASSIGNED_ENTITY;
+    addRevenue(teams, employee.team, rate.currency, budgeted, realised, employee.billedHours);
+    addRevenue(entities, entity, rate.currency, budgeted, realised, employee.billedHours);
+    company.budgeted += reportingBudgeted;
+    company.realised += reportingRealised;
+    company.billedHours += employee.billedHours;
+  }
+
+  const toMetrics = (totals: Record<string, RevenueTotals>): Record<string, RevenueMetrics> =>
+    Object.fromEntries(Object.entries(totals).map(([name, value]) => [name, calculateRevenueMetrics(value)]));
+
+  return {
+    ...calculateRevenueMetrics(company),
+    exchangeRatesAsOf: exchangeRates.asOf ?? null,
+    teams: toMetrics(teams),
+    entities: toMetrics(entities),
+    unpriced
+  };
+}
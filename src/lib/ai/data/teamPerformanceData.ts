@@ -0,0 +1,143 @@
+import { getBudgetDataForPeriod, ensureBudgetForPeriod } from '@/lib/data/budgetRepository';
+import { proRateBudgetData, BudgetProRating } from '@/lib/data/budgetProRating';
+import { parsePeriod, getPreviousPeriodRange, PeriodRange } from '@/lib/utils/periodRange';
+import { fetchBilledHoursData, matchEmployeeData, EmployeeAnalysis } from '@/lib/ai/data/executiveSummaryData';
+import { resolveTeamFilter, TeamFilter } from '@/lib/utils/teamMapping';
+import { AT_RISK_VARIANCE_PERCENTAGE } from '@/lib/ai/data/analysisThresholds';
+
+// Utilization changes smaller than this (in percentage points) are reported as stable
+const STABLE_TREND_THRESHOLD = 2;
+
+export interface TeamPeriodMetrics {
+  period: string;
+  budgeted: number;
+  billed: number;
+  nonBillable: number;
+  variance: number;
+  variancePercentage: number;
+  utilizationRate: number;
+  /** Share of logged hours that were billable (%) */
+  billableRatio: number;
+  headcount: number;
+}
+
+export interface TeamPerformanceData {
+  teamName: string;
+  current: TeamPeriodMetrics;
+  previous: TeamPeriodMetrics;
+  trend: {
+    billedChange: number;
+    billedChangePercentage: number;
+    utilizationChange: number;
+    direction: 'improving' | 'declining' | 'stable';
+  };
+  atRisk: {
+    overBudget: number;
+    underBudget: number;
+    onTrack: number;
+  };
+  employeeAnalysis: EmployeeAnalysis[];
+  /** How the current period's budget was pro-rated to the as-of date, or null if the period has ended */
+  proRating: BudgetProRating | null;
+}
+
+/**
+ * Fetch budget and billed hours for a team in one period and match them per employee,
+ * with the budget pro-rated to the as-of date if the period is in progress
+ */
+async function getTeamEmployeeAnalysis(
+  teamFilter: TeamFilter,
+  range: PeriodRange,
+  asOf: Date
+): Promise<{ employeeAnalysis: EmployeeAnalysis[]; proRating: BudgetProRating | null }> {
+  const [databaseData, budgetData] = await Promise.all([
+    fetchBilledHoursData(range, teamFilter),
+    getBudgetDataForPeriod(range, teamFilter.csvTeamNames)
+  ]);
+
+  const { data, proRating } = proRateBudgetData(budgetData, range, asOf);
+  return { employeeAnalysis: matchEmployeeData(databaseData, data, range), proRating };
+}
+
+/**
+ * Summarise employee analysis into team metrics for one period
+ */
+function calculateTeamMetrics(range: PeriodRange, employeeAnalysis: EmployeeAnalysis[]): TeamPeriodMetrics {
+  const budgeted = employeeAnalysis.reduce((sum, emp) => sum + emp.budgetedHours, 0);
+  const billed = employeeAnalysis.reduce((sum, emp) => sum + emp.billedHours, 0);
+  const nonBillable = employeeAnalysis.reduce((sum, emp) => sum + emp.nonBillableHours, 0);
+  const variance = billed - budgeted;
+
+  return {
+    period: range.label,
+    budgeted,
+    billed,
+    nonBillable,
+    variance,
+    variancePercentage: budgeted > 0 ? (variance / budgeted) * 100 : 0,
+    utilizationRate: budgeted > 0 ? (billed / budgeted) * 100 : 0,
+    billableRatio: billed + nonBillable > 0 ? (billed / (billed + nonBillable)) * 100 : 0,
+    headcount: employeeAnalysis.length
+  };
+}
+
+/**
+ * Fetch and analyze budget performance for a single team, including the
+ * trend against the previous period of equal length (previous month for a month)
+ * @param teamName - Team in any common notation (e.g., 'CST4', 'CST IV', 'cst 4') or a legal entity ('Denmark')
+ * @param period - Period like "May 2025", "202505" or "Q1 2025"
+ * @param asOf - Date billed hours are compared as of; the budget of a period in progress is pro-rated to it
+ * @throws PeriodParseError if the period cannot be parsed
+ * @throws UnknownTeamError if the team cannot be resolved
+ * @throws NoBudgetDataError if the budget files have no budget for the period
+ */
+export async function getTeamPerformanceAnalysis(teamName: string, period: string, asOf: Date = new Date()): Promise<TeamPerformanceData> {
+  const range = parsePeriod(period);
+  const previousRange = getPreviousPeriodRange(range);
+  const teamFilter = resolveTeamFilter(teamName);
+
+  try {
+    // The previous period may predate the budget files; it is then compared as 0 budgeted hours
+    await ensureBudgetForPeriod(range);
+
+    const [{ employeeAnalysis, proRating }, { employeeAnalysis: previousEmployeeAnalysis }] = await Promise.all([
+      getTeamEmployeeAnalysis(teamFilter, range, asOf),
+      getTeamEmployeeAnalysis(teamFilter, previousRange, asOf)
+    ]);
+
+    const current = calculateTeamMetrics(range, employeeAnalysis);
+    const previous = calculateTeamMetrics(previousRange, previousEmployeeAnalysis);
+
+    const billedChange = current.billed - previous.billed;
+    const utilizationChange = current.utilizationRate - previous.utilizationRate;
+
+    let direction: TeamPerformanceData['trend']['direction'] = 'stable';
+    if (utilizationChange > STABLE_TREND_THRESHOLD) {
+      direction = 'improving';
+    } else if (utilizationChange < -STABLE_TREND_THRESHOLD) {
+      direction = 'declining';
+    }
+
+    return {
+      teamName: teamFilter.label,
+      current,
+      previous,
+      trend: {
+        billedChange,
+        billedChangePercentage: previous.billed > 0 ? (billedChange / previous.billed) * 100 : 0,
+        utilizationChange,
+        direction
+      },
+      atRisk: {
+        overBudget: employeeAnalysis.filter(emp => emp.variancePercentage > AT_RISK_VARIANCE_PERCENTAGE).length,
+        underBudget: employeeAnalysis.filter(emp => emp.variancePercentage < -AT_RISK_VARIANCE_PERCENTAGE).length,
+        onTrack: employeeAnalysis.filter(emp => Math.abs(emp.variancePercentage) <= AT_RISK_VARIANCE_PERCENTAGE).length
+      },
+      employeeAnalysis,
+      proRating
+    };
+  } catch (error) {
+    console.error('Failed to generate team performance analysis:', error);
+    throw new Error(`Team performance analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+  }
+}
@@ -0,0 +1,237 @@
+import { getBudgetDataForPeriod, ensureBudgetForPeriod } from '@/lib/data/budgetRepository';
+import { ProcessedBudgetData } from '@/lib/data/csvReader';
+import { proRateBudgetData } from '@/lib/data/budgetProRating';
+import { parsePeriod, createPeriodRange, formatPeriodCode, PeriodParseError, PeriodRange } from '@/lib/utils/periodRange';
+import { fetchBilledHoursData, generateTeamSummary, TeamSummary } from '@/lib/ai/data/executiveSummaryData';
+import { reconcileEmployees } from '@/lib/ai/data/reconciliation';
+import { resolveTeamFilter, getAllTeamsFilter, TeamFilter } from '@/lib/utils/teamMapping';
+import { formatIsoDate } from '@/lib/utils/workingDays';
+
+// Longest range a trend can cover, to bound the number of warehouse queries
+const MAX_TREND_MONTHS = 24;
+
+// Utilization changes smaller than this (in percentage points) are reported as stable
+const STABLE_TREND_THRESHOLD = 2;
+
+export interface TrendMetrics {
+  budgeted: number;
+  billed: number;
+  variance: number;
+  variancePercentage: number;
+  utilizationRate: number;
+}
+
+export interface TrendPoint extends TrendMetrics {
+  /** Period code of the month (e.g., '202505') */
+  month: string;
+  /** Display label of the month (e.g., 'May 2025') */
+  label: string;
+  /** Change against the previous month, or null if the previous month was not analyzed */
+  change: {
+    budgeted: number;
+    billed: number;
+    utilizationRate: number;
+  } | null;
+  /** Cumulative figures from January of the month's year up to and including the month */
+  ytd: TrendMetrics;
+}
+
+export interface TrendData {
+  scope: string;
+  period: string;
+  /** Date the trend was computed as of (YYYY-MM-DD); the month in progress has a pro-rated budget */
+  asOf: string;
+  company: TrendPoint[];
+  teams: Record<string, TrendPoint[]>;
+  summary: {
+    direction: 'improving' | 'declining' | 'stable';
+    /** Utilization change from the first to the last month, in percentage points */
+    utilizationChange: number;
+    bestMonth: string | null;
+    worstMonth: string | null;
+  };
+}
+
+function calculateTrendMetrics(budgeted: number, billed: number): TrendMetrics {
+  const variance = billed - budgeted;
+
+  return {
+    budgeted,
+    billed,
+    variance,
+    variancePercentage: budgeted > 0 ? (variance / budgeted) * 100 : 0,
+    utilizationRate: budgeted > 0 ? (billed / budgeted) * 100 : 0
+  };
+}
+
+/**
+ * Restrict period budget data to a single month using the monthlyHours map
+ */
+function getBudgetForMonth(budgetData: ProcessedBudgetData[], monthCode: string): ProcessedBudgetData[] {
+  return budgetData
+    .filter(item => item.monthlyHours[monthCode] !== undefined)
+    .map(item => ({ ...item, totalHours: item.monthlyHours[monthCode] }));
+}
+
+/**
+ * Reconcile budget and billed hours month by month, like a single-month executive summary per month
+ * @param range - Months to analyze
+ * @param teamFilter - Teams to include
+ * @param asOf - Date billed hours are compared as of; the month in progress is pro-rated and later months count as 0
+ * @returns Team summary per month code, in chronological order
+ */
+export async function getMonthlyTeamSummaries(
+  range: PeriodRange,
+  teamFilter: TeamFilter,
+  asOf: Date = new Date()
+): Promise<Map<string, Record<string, TeamSummary>>> {
+  const [budgetData, billedByMonth] = await Promise.all([
+    getBudgetDataForPeriod(range, teamFilter.csvTeamNames),
+    // One query per month; closed months are served from the billed hours cache
+    Promise.all(range.monthCodes.map(monthCode =>
+      fetchBilledHoursData(createPeriodRange(monthCode, monthCode, 'month'), teamFilter)
+    ))
+  ]);
+
+  const teamSummaries = new Map<string, Record<string, TeamSummary>>();
+  range.monthCodes.forEach((monthCode, index) => {
+    const monthRange = createPeriodRange(monthCode, monthCode, 'month');
+    const { data: monthBudgetData } = proRateBudgetData(getBudgetForMonth(budgetData, monthCode), monthRange, asOf);
+    const { analysis } = reconcileEmployees(billedByMonth[index], monthBudgetData, monthRange);
+    teamSummaries.set(monthCode, generateTeamSummary(analysis));
+  });
+
+  return teamSummaries;
+}
+
+/**
+ * Build a monthly series with month-over-month changes and cumulative year-to-date figures.
+ * Months before the first reported month are only used for the cumulative figures.
+ * @param monthlyTotals - Budgeted and billed hours per month code, in chronological order
+ * @param reportedMonths - Month codes to include in the series
+ */
+function buildTrendSeries(monthlyTotals: Map<string, { budgeted: number; billed: number }>, reportedMonths: string[]): TrendPoint[] {
+  const series: TrendPoint[] = [];
+  let previous: TrendMetrics | null = null;
+  let ytdBudgeted = 0;
+  let ytdBilled = 0;
+
+  for (const [monthCode, totals] of monthlyTotals) {
+    // Year-to-date figures restart in January
+    if (monthCode.endsWith('01')) {
+      ytdBudgeted = 0;
+      ytdBilled = 0;
+    }
+    ytdBudgeted += totals.budgeted;
+    ytdBilled += totals.billed;
+
+    const metrics = calculateTrendMetrics(totals.budgeted, totals.billed);
+
+    if (reportedMonths.includes(monthCode)) {
+      series.push({
+        month: monthCode,
+        label: formatPeriodCode(monthCode),
+        ...metrics,
+        change: previous ? {
+          budgeted: metrics.budgeted - previous.budgeted,
+          billed: metrics.billed - previous.billed,
+          utilizationRate: metrics.utilizationRate - previous.utilizationRate
+        } : null,
+        ytd: calculateTrendMetrics(ytdBudgeted, ytdBilled)
+      });
+    }
+
+    previous = metrics;
+  }
+
+  return series;
+}
+
+/**
+ * Fetch and analyze the monthly trend of budgeted vs billed hours over a period, per team and in total.
+ * Each month is reconciled like a single-month executive summary, so the figures match it.
+ * @param period - Period like "Q1 2025", "YTD 2025" or "January–June 2025"
+ * @param team - Optional team or legal entity (e.g., 'CST3', 'Denmark'); all teams if omitted
+ * @param asOf - Date billed hours are compared as of
+ * @throws PeriodParseError if the period cannot be parsed or runs more than 24 months from January of its first year
+ * @throws UnknownTeamError if the team cannot be resolved
+ * @throws NoBudgetDataError if the budget files have no budget for the period
+ */
+export async function getTrendAnalysis(period: string, team?: string, asOf: Date = new Date()): Promise<TrendData> {
+  const range = parsePeriod(period);
+  const teamFilter = team ? resolveTeamFilter(team) : getAllTeamsFilter();
+
+  // Start from January so the cumulative year-to-date figures are complete
+  const firstMonth = range.monthCodes[0];
+  const lastMonth = range.monthCodes[range.monthCodes.length - 1];
+  const fetchRange: PeriodRange = createPeriodRange(`${firstMonth.substring(0, 4)}01`, lastMonth);
+
+  // The limit applies to the months fetched, which include the months from January to the start of the period
+  if (fetchRange.monthCodes.length > MAX_TREND_MONTHS) {
+    throw new PeriodParseError(period, `trends are limited to ${MAX_TREND_MONTHS} months, counted from January of the first year`);
+  }
+
+  try {
+    await ensureBudgetForPeriod(range);
+    const teamSummaries = await getMonthlyTeamSummaries(fetchRange, teamFilter, asOf);
+
+    const teamNames = Array.from(new Set(
+      Array.from(teamSummaries.values()).flatMap(summary => Object.keys(summary))
+    )).sort();
+
+    const companyTotals = new Map<string, { budgeted: number; billed: number }>();
+    for (const [monthCode, summary] of teamSummaries) {
+      const teams = Object.values(summary);
+      companyTotals.set(monthCode, {
+        budgeted: teams.reduce((sum, teamSummary) => sum + teamSummary.budgeted, 0),
+        billed: teams.reduce((sum, teamSummary) => sum + teamSummary.billed, 0)
+      });
+    }
+
+    const teams: Record<string, TrendPoint[]> = {};
+    for (const teamName of teamNames) {
+      const teamTotals = new Map<string, { budgeted: number; billed: number }>();
+      for (const [monthCode, summary] of teamSummaries) {
+        teamTotals.set(monthCode, {
+          budgeted: summary[teamName]?.budgeted || 0,
+          billed: summary[teamName]?.billed || 0
+        });
+      }
+      teams[teamName] = buildTrendSeries(teamTotals, range.monthCodes);
+    }
+
+    const company = buildTrendSeries(companyTotals, range.monthCodes);
+
+    // Months without budget have no meaningful utilization and are left out of the summary
+    const budgetedMonths = company.filter(point => point.budgeted > 0);
+    const utilizationChange = budgetedMonths.length > 1
+      ? budgetedMonths[budgetedMonths.length - 1].utilizationRate - budgetedMonths[0].utilizationRate
+      : 0;
+
+    let direction: TrendData['summary']['direction'] = 'stable';
+    if (utilizationChange > STABLE_TREND_THRESHOLD) {
+      direction = 'improving';
+    } else if (utilizationChange < -STABLE_TREND_THRESHOLD) {
+      direction = 'declining';
+    }
+
+    const byUtilization = [...budgetedMonths].sort((a, b) => b.utilizationRate - a.utilizationRate);
+
+    return {
+      scope: teamFilter.label,
+      period: range.label,
+      asOf: formatIsoDate(asOf),
+      company,
+      teams,
+      summary: {
+        direction,
+        utilizationChange,
+        bestMonth: byUtilization[0]?.label ?? null,
+        worstMonth: byUtilization[byUtilization.length - 1]?.label ?? null
+      }
+    };
+  } catch (error) {
+    console.error('Failed to generate trend analysis:', error);
+    throw new Error(`Trend analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+  }
+}
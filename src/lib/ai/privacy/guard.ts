@@ -0,0 +1,313 @@
+import { createHmac, randomBytes } from 'crypto';
+import type { TextStreamPart, ToolSet } from 'ai';
+import { PrivacyRoster } from '@/lib/ai/privacy/roster';
+import { extractFullName, extractInitials, isValidDatabaseEmployeeFormat } from '@/lib/utils/employeeMapping';
+import { createToolError, ToolError } from '@/lib/ai/tools/toolErrors';
+
+// Groups with fewer employees than this are not reported, unless PRIVACY_MIN_GROUP_SIZE says otherwise
+const DEFAULT_MIN_GROUP_SIZE = 3;
+
+// Fields holding employee names; they are dropped from tool results
+const NAME_FIELDS = new Set(['fullName', 'databaseName', 'employeeName', 'EmployeeName']);
+
+// Fields holding group sizes, used to suppress aggregates over too few employees
+const GROUP_SIZE_FIELDS = ['employeeCount', 'headcount', 'teamSize'];
+
+// Fields naming the team or entity an aggregate belongs to
+const GROUP_NAME_FIELDS = ['team', 'teamName', 'entity'];
+
+// Aliases up to this length without spaces are treated as initials
+const MAX_INITIALS_LENGTH = 4;
+
+// Word boundaries that also work for names with letters outside ASCII (e.g., 'Søren')
+const WORD_START = '(?<![\\p{L}\\p{N}])';
+const WORD_END = '(?![\\p{L}\\p{N}])';
+
+// Per-process secret, used when PRIVACY_PSEUDONYM_SECRET is not set; pseudonyms then change on restart
+let processSecret: string | null = null;
+
+function getPseudonymSecret(): string {
+  if (process.env.PRIVACY_PSEUDONYM_SECRET) {
+    return process.env.PRIVACY_PSEUDONYM_SECRET;
+  }
+
+  if (!processSecret) {
+    console.warn('PRIVACY_PSEUDONYM_SECRET is not set - employee pseudonyms change when the server restarts');
+    processSecret = randomBytes(32).toString('hex');
+  }
+  return processSecret;
+}
+
+/**
+ * Get the minimum number of employees a team or entity needs for its figures to be reported,
+ * from PRIVACY_MIN_GROUP_SIZE (default 3; 0 or 1 disables the check)
+ */
+export function getMinGroupSize(): number {
+  const configured = Number(process.env.PRIVACY_MIN_GROUP_SIZE);
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_MIN_GROUP_SIZE;
+}
+
+/**
+ * Stable pseudonym for an employee (e.g., 'Employee 3F2A9C'), derived from the budget initials
+ */
+export function pseudonymizeEmployee(initials: string): string {
+  const digest = createHmac('sha256', getPseudonymSecret()).update(initials.trim().toUpperCase()).digest('hex');
+  return `Employee ${digest.substring(0, 6).toUpperCase()}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Privacy guard for one chat request
+ */
+export interface PrivacyGuard {
+  /** Replace known employee names and initials in a text with pseudonyms */
+  redactText(text: string): string;
+  /** Check whether a team or entity has fewer employees than the minimum group size */
+  isSmallGroup(name: string): boolean;
+  /** Sanitize a tool result before it reaches the model */
+  sanitizeToolResult<T>(result: T): T | ToolError | Record<string, unknown>;
+  /** Wrap the execute function of each tool so its result is sanitized */
+  wrapTools<TOOLS extends ToolSet>(tools: TOOLS): TOOLS;
+  /** Stream transform for streamText's experimental_transform that redacts names and initials from text deltas */
+  createOutputTransform<TOOLS extends ToolSet>(): () => TransformStream<TextStreamPart<TOOLS>, TextStreamPart<TOOLS>>;
+}
+
+/**
+ * Create the privacy guard for one chat request. Tool results are sanitized before they reach the model,
+ * and streamed text is scanned for names and initials from the roster and from the tool results,
+ * so the privacy rules do not depend on the model following the system prompt.
+ * @param roster - Employees and group sizes, from getPrivacyRoster
+ * @param minGroupSize - Minimum employees for a team or entity to be reported (defaults to PRIVACY_MIN_GROUP_SIZE)
+ */
+export function createPrivacyGuard(roster: PrivacyRoster, minGroupSize: number = getMinGroupSize()): PrivacyGuard {
+  const initials = new Set<string>();
+  // Lower-case names mapped to the pseudonym that replaces them
+  const names = new Map<string, string>();
+  let initialsPattern: RegExp | null = null;
+  let namesPattern: RegExp | null = null;
+
+  const addInitials = (value: string): void => {
+    const normalized = value.trim().toUpperCase();
+    if (normalized && !initials.has(normalized)) {
+      initials.add(normalized);
+      initialsPattern = null;
+    }
+  };
+
+  // Register a name in database ('THN - Thomas Nissen') or plain format
+  const addName = (value: string): void => {
+    const trimmed = value.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    if (!trimmed.includes(' ') && trimmed.length <= MAX_INITIALS_LENGTH) {
+      addInitials(trimmed);
+      return;
+    }
+
+    // A plain name ('Thomas Nissen') has no initials to parse and keeps the pseudonym it may already have
+    const isDatabaseFormat = isValidDatabaseEmployeeFormat(trimmed);
+    const parsedInitials = isDatabaseFormat ? extractInitials(trimmed) : '';
+    const pseudonym = names.get(trimmed.toLowerCase()) ?? pseudonymizeEmployee(parsedInitials || trimmed);
+    if (parsedInitials) {
+      addInitials(parsedInitials);
+    }
+
+    for (const variant of isDatabaseFormat ? [trimmed, extractFullName(trimmed)] : [trimmed]) {
+      if (variant && !names.has(variant.toLowerCase())) {
+        names.set(variant.toLowerCase(), pseudonym);
+        namesPattern = null;
+      }
+    }
+  };
+
+  roster.initials.forEach(addInitials);
+  roster.names.forEach(addName);
+
+  // Length of the longest name or initials, used to hold back streamed text that may end in a partial name
+  const getLongestTerm = (): number =>
+    Math.max(0, ...Array.from(names.keys(), name => name.length), ...Array.from(initials, value => value.length));
+
+  // Names match case-insensitively, initials only as whole upper-case words
+  const redactText = (text: string): string => {
+    if (names.size > 0) {
+      namesPattern ??= new RegExp(
+        `${WORD_START}(?:${Array.from(names.keys()).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})${WORD_END}`,
+        'giu'
+      );
+      text = text.replace(namesPattern, match => names.get(match.toLowerCase()) ?? match);
+    }
+
+    if (initials.size > 0) {
+      initialsPattern ??= new RegExp(`${WORD_START}(?:${Array.from(initials).map(escapeRegExp).join('|')})${WORD_END}`, 'gu');
+      text = text.replace(initialsPattern, match => pseudonymizeEmployee(match));
+    }
+
+    return text;
+  };
+
+  const isSmallGroup = (name: string): boolean => {
+    const size = roster.groupSizes.get(name.trim().toUpperCase());
+    return size !== undefined && size < minGroupSize;
+  };
+
+  // Name of the small group an aggregate belongs to or refers to, or null if it can be reported. Any field naming
+  // a small team or entity counts, since a comparison like { lowestUtilization: 'CST V' } also gives its figures away.
+  const findSmallGroup = (value: Record<string, unknown>, key?: string): string | null => {
+    if (key && isSmallGroup(key)) {
+      return key;
+    }
+
+    const namedGroup = Object.values(value).find((child): child is string => typeof child === 'string' && isSmallGroup(child));
+    if (namedGroup) {
+      return namedGroup;
+    }
+
+    if (!GROUP_SIZE_FIELDS.some(field => typeof value[field] === 'number' && (value[field] as number) > 0 && (value[field] as number) < minGroupSize)) {
+      return null;
+    }
+    const group = GROUP_NAME_FIELDS.map(field => value[field]).find(name => typeof name === 'string');
+    return typeof group === 'string' ? group : 'Small group';
+  };
+
+  // Collect the names in a tool result first, so they are also redacted from messages and from the output
+  const collectNames = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(collectNames);
+    } else if (isRecord(value)) {
+      for (const [key, child] of Object.entries(value)) {
+        if (NAME_FIELDS.has(key) && typeof child === 'string') {
+          addName(child);
+        } else if (key === 'initials' && typeof child === 'string') {
+          addInitials(child);
+        } else {
+          collectNames(child);
+        }
+      }
+    }
+  };
+
+  const sanitizeValue = (value: unknown, suppressed: Set<string>): unknown => {
+    if (typeof value === 'string') {
+      return redactText(value);
+    }
+
+    if (Array.isArray(value)) {
+      return value
+        .filter(item => {
+          const smallGroup = isRecord(item) ? findSmallGroup(item) : null;
+          if (smallGroup) {
+            suppressed.add(smallGroup);
+            return false;
+          }
+          return true;
+        })
+        .map(item => sanitizeValue(item, suppressed));
+    }
+
+    if (!isRecord(value)) {
+      return value;
+    }
+
+    const sanitized: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      if (NAME_FIELDS.has(key)) {
+        continue;
+      }
+
+      const smallGroup = isRecord(child) ? findSmallGroup(child, key) : null;
+      if (key === 'initials' && typeof child === 'string') {
+        sanitized[key] = pseudonymizeEmployee(child);
+      } else if (smallGroup) {
+        suppressed.add(smallGroup);
+        sanitized[key] = { suppressed: true };
+      } else {
+        sanitized[redactText(key)] = sanitizeValue(child, suppressed);
+      }
+    }
+    return sanitized;
+  };
+
+  // Drop employee names, replace initials with pseudonyms, redact names inside messages and suppress
+  // figures for small teams and entities. A result scoped to a small team or entity becomes an error.
+  const sanitizeToolResult = <T>(result: T): T | ToolError | Record<string, unknown> => {
+    if (!isRecord(result)) {
+      return result;
+    }
+
+    collectNames(result);
+
+    const scope = GROUP_NAME_FIELDS.map(field => result[field]).find(name => typeof name === 'string');
+    if (typeof scope === 'string' && isSmallGroup(scope) && !result.error) {
+      return createToolError(
+        'insufficient_group_size',
+        `${scope} has fewer than ${minGroupSize} employees, so its figures are not reported to protect individual employees`,
+        { team: scope }
+      );
+    }
+
+    const suppressed = new Set<string>();
+    const sanitized = sanitizeValue(result, suppressed) as Record<string, unknown>;
+
+    if (suppressed.size > 0) {
+      sanitized.privacy = {
+        minGroupSize,
+        suppressedGroups: Array.from(suppressed),
+        note: `Figures for groups with fewer than ${minGroupSize} employees are suppressed`
+      };
+    }
+    return sanitized;
+  };
+
+  const wrapTools = <TOOLS extends ToolSet>(tools: TOOLS): TOOLS => {
+    const wrapped: Record<string, unknown> = {};
+
+    for (const [name, definition] of Object.entries(tools)) {
+      const execute = definition.execute;
+      wrapped[name] = execute
+        ? { ...definition, execute: async (...args: Parameters<typeof execute>) => sanitizeToolResult(await execute(...args)) }
+        : definition;
+    }
+    return wrapped as TOOLS;
+  };
+
+  // The end of the streamed text is held back until it cannot be the start of a name split across chunks
+  const createOutputTransform = <TOOLS extends ToolSet>() => () => {
+    let buffer = '';
+
+    const flush = (controller: TransformStreamDefaultController<TextStreamPart<TOOLS>>) => {
+      if (buffer) {
+        controller.enqueue({ type: 'text-delta', textDelta: redactText(buffer) });
+        buffer = '';
+      }
+    };
+
+    return new TransformStream<TextStreamPart<TOOLS>, TextStreamPart<TOOLS>>({
+      transform(chunk, controller) {
+        if (chunk.type !== 'text-delta') {
+          flush(controller);
+          controller.enqueue(chunk);
+          return;
+        }
+
+        buffer = redactText(buffer + chunk.textDelta);
+        const holdBack = getLongestTerm();
+        if (buffer.length > holdBack) {
+          controller.enqueue({ type: 'text-delta', textDelta: buffer.substring(0, buffer.length - holdBack) });
+          buffer = buffer.substring(buffer.length - holdBack);
+        }
+      },
+      flush
+    });
+  };
+
+  return { redactText, isSmallGroup, sanitizeToolResult, wrapTools, createOutputTransform };
+}
@@ -0,0 +1,80 @@
+import { loadBudgetData, getAvailableBudgetYears } from '@/lib/data/budgetRepository';
+import { getEmployeeIdentityMapping } from '@/lib/data/employeeIdentities';
+import { findRegisteredTeam } from '@/lib/data/teamRegistry';
+import { fetchBilledHoursData } from '@/lib/ai/data/executiveSummaryData';
+import { createPeriodRange } from '@/lib/utils/periodRange';
+
+/**
+ * Employees and group sizes known to the privacy guard
+ */
+export interface PrivacyRoster {
+  /** Employees per team display name and per legal entity, keyed in upper case */
+  groupSizes: Map<string, number>;
+  /** Budget initials of all employees (e.g., 'THN') */
+  initials: Set<string>;
+  /** Employee names from the billed hours source and aliases from the identity mapping (e.g., 'THN - Thomas Nissen') */
+  names: Set<string>;
+}
+
+/**
+ * Pick the budget year the roster is built from: the current year if there is a budget for it,
+ * otherwise the latest year before it, otherwise the earliest year available
+ */
+function selectRosterYear(now: Date): number | null {
+  const years = getAvailableBudgetYears().sort((a, b) => a - b);
+  if (years.length === 0) {
+    return null;
+  }
+
+  const currentYear = now.getFullYear();
+  return [...years].reverse().find(year => year <= currentYear) ?? years[0];
+}
+
+/**
+ * Build the roster of employees and group sizes from the budget file, the billed hours and the identity mapping.
+ * Team sizes count the employees with budgeted hours in the roster year; entity sizes add up their teams.
+ * Names are those that logged hours in the roster year or the year before, so names from earlier in a
+ * conversation are redacted even if no tool returned them in the current request. The roster fails if the
+ * billed hours cannot be fetched, so the chat does not stream answers without the names to redact.
+ * @param now - Date used to select the budget year (defaults to today)
+ */
+export async function getPrivacyRoster(now: Date = new Date()): Promise<PrivacyRoster> {
+  const year = selectRosterYear(now);
+  const budgetData = await loadBudgetData(year ? createPeriodRange(`${year}01`, `${year}12`, 'year', String(year)) : undefined);
+
+  const initials = new Set<string>();
+  const employeesByTeam = new Map<string, Set<string>>();
+
+  for (const item of budgetData) {
+    initials.add(item.employee);
+    if (item.totalHours <= 0) {
+      continue;
+    }
+
+    const team = item.team.toUpperCase();
+    if (!employeesByTeam.has(team)) {
+      employeesByTeam.set(team, new Set());
+    }
+    employeesByTeam.get(team)!.add(item.employee);
+  }
+
+  const groupSizes = new Map<string, number>();
+  for (const [team, employees] of employeesByTeam) {
+    groupSizes.set(team, employees.size);
+
+    const entity = findRegisteredTeam(team)?.entity.toUpperCase();
+    if (entity) {
+      groupSizes.set(entity, (groupSizes.get(entity) || 0) + employees.size);
+    }
+  }
+
+  const nameYear = year ?? now.getFullYear();
+  const billedHours = await fetchBilledHoursData(createPeriodRange(`${nameYear - 1}01`, `${nameYear}12`));
+  const names = new Set<string>(billedHours.map(row => row.EmployeeName));
+  for (const identity of getEmployeeIdentityMapping().employees) {
+    initials.add(identity.budgetInitials);
+    identity.aliases.forEach(alias => names.add(alias));
+  }
+
+  return { groupSizes, initials, names };
+}
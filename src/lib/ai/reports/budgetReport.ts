@@ -0,0 +1,353 @@
+import { getExecutiveSummaryAnalysis, ExecutiveSummaryData, TeamSummary } from '@/lib/ai/data/executiveSummaryData';
+import { BUDGET_VARIANCE_THRESHOLD, TEAM_VARIANCE_THRESHOLD, LOW_BILLABLE_RATIO } from '@/lib/ai/data/analysisThresholds';
+import { ensureBudgetForPeriod, NoBudgetDataError } from '@/lib/data/budgetRepository';
+import { getPrivacyRoster } from '@/lib/ai/privacy/roster';
+import { createPrivacyGuard } from '@/lib/ai/privacy/guard';
+import { getPreviousPeriodRange, PeriodRange } from '@/lib/utils/periodRange';
+import { getAllTeamsFilter, TeamFilter } from '@/lib/utils/teamMapping';
+import { formatIsoDate } from '@/lib/utils/workingDays';
+
+// Number of teams listed under the top-moving teams
+const TOP_MOVERS_COUNT = 3;
+
+/**
+ * Which rule picked the report's recommendation
+ * - over_budget / under_budget / internal_load: the total hours deviate more than 10% from budget
+ * - team_over_budget / team_under_budget / team_internal_load: a team deviates more than 15% from budget
+ * - data_quality: employees are missing from the budget or the time registration
+ * - on_track: none of the above
+ */
+export type RecommendationRule =
+  | 'over_budget'
+  | 'under_budget'
+  | 'internal_load'
+  | 'team_over_budget'
+  | 'team_under_budget'
+  | 'team_internal_load'
+  | 'data_quality'
+  | 'on_track';
+
+export interface TeamMovement {
+  team: string;
+  budgeted: number;
+  billed: number;
+  variancePercentage: number;
+  utilizationRate: number;
+  /** Utilization change against the previous period in percentage points, or null if the team had no budget then */
+  utilizationChange: number | null;
+}
+
+export interface BudgetReport {
+  period: string;
+  scope: string;
+  /** Date the report was computed as of (YYYY-MM-DD) */
+  asOf: string;
+  headline: string;
+  topMovers: TeamMovement[];
+  recommendation: {
+    rule: RecommendationRule;
+    text: string;
+  };
+  /** Teams and entities left out of the report because they have too few employees */
+  suppressedGroups: string[];
+  /** The complete report as Markdown */
+  markdown: string;
+}
+
+export interface BudgetReportOptions {
+  /** Previous period of equal length, used for the movement of teams; null if it has no budget */
+  previousRange: PeriodRange | null;
+  /** Date the figures were computed as of */
+  asOf: Date;
+  /** Check whether a team or entity is too small to report on; such teams are left out of the team commentary */
+  isSmallGroup?: (name: string) => boolean;
+}
+
+function formatHours(hours: number): string {
+  return Math.round(hours).toLocaleString('en-US');
+}
+
+function formatPercentage(value: number): string {
+  return `${value.toFixed(1)}%`;
+}
+
+function formatPoints(value: number): string {
+  return `${value >= 0 ? '+' : '-'}${Math.abs(value).toFixed(1)} pp`;
+}
+
+function formatAmount(currency: string, amount: number): string {
+  return `${currency} ${Math.round(amount).toLocaleString('en-US')}`;
+}
+
+function formatCount(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function getVariancePercentage(budgeted: number, variance: number): number {
+  return budgeted > 0 ? (variance / budgeted) * 100 : 0;
+}
+
+function getUtilizationRate(summary: TeamSummary): number {
+  return summary.budgeted > 0 ? (summary.billed / summary.budgeted) * 100 : 0;
+}
+
+/**
+ * Describe a variance percentage as over, under or on budget
+ */
+function describeVariance(variancePercentage: number): string {
+  if (Math.abs(variancePercentage) < 0.05) {
+    return 'on budget';
+  }
+  return `${formatPercentage(Math.abs(variancePercentage))} ${variancePercentage > 0 ? 'over' : 'under'} budget`;
+}
+
+/**
+ * Rank teams by how much their utilization moved against the previous period, or by their
+ * variance from budget when there is no previous period. Ties are broken by team name.
+ */
+function rankTeamMovements(
+  current: ExecutiveSummaryData,
+  previous: ExecutiveSummaryData | null,
+  isSmallGroup: (name: string) => boolean
+): TeamMovement[] {
+  const movements = Object.entries(current.teamSummary)
+    .filter(([teamName, summary]) => !isSmallGroup(teamName) && (summary.budgeted > 0 || summary.billed > 0))
+    .map(([teamName, summary]): TeamMovement => {
+      const previousSummary = previous?.teamSummary[teamName];
+      const utilizationRate = getUtilizationRate(summary);
+
+      return {
+        team: teamName,
+        budgeted: summary.budgeted,
+        billed: summary.billed,
+        variancePercentage: getVariancePercentage(summary.budgeted, summary.variance),
+        utilizationRate,
+        utilizationChange: previousSummary && previousSummary.budgeted > 0 ? utilizationRate - getUtilizationRate(previousSummary) : null
+      };
+    });
+
+  const movement = (team: TeamMovement) => Math.abs(team.utilizationChange ?? team.variancePercentage);
+  return movements.sort((a, b) => movement(b) - movement(a) || a.team.localeCompare(b.team));
+}
+
+/**
+ * Pick the single recommendation of the report. The rules follow the thresholds of the executive summary tool:
+ * the total deviation first, then the team deviating most, then data quality gaps.
+ */
+function selectRecommendation(
+  data: ExecutiveSummaryData,
+  isSmallGroup: (name: string) => boolean
+): BudgetReport['recommendation'] {
+  const variancePercentage = getVariancePercentage(data.totalBudgeted, data.budgetVariance);
+
+  if (variancePercentage > BUDGET_VARIANCE_THRESHOLD) {
+    return {
+      rule: 'over_budget',
+      text: `${data.scope} is ${formatPercentage(variancePercentage)} over budget. Review resource allocation and project scope before the overrun grows.`
+    };
+  }
+
+  if (variancePercentage < -BUDGET_VARIANCE_THRESHOLD) {
+    if (data.totalHours > 0 && data.billableRatio < LOW_BILLABLE_RATIO) {
+      return {
+        rule: 'internal_load',
+        text: `${data.scope} is ${formatPercentage(Math.abs(variancePercentage))} under budget with only ${formatPercentage(data.billableRatio)} of logged hours billable. Internal work is taking up capacity; review internal priorities.`
+      };
+    }
+    return {
+      rule: 'under_budget',
+      text: `${data.scope} is ${formatPercentage(Math.abs(variancePercentage))} under budget. Increase utilization or reallocate the unused capacity to other projects.`
+    };
+  }
+
+  const deviatingTeam = Object.entries(data.teamSummary)
+    .filter(([teamName, summary]) => !isSmallGroup(teamName) && summary.budgeted > 0)
+    .map(([teamName, summary]) => ({ teamName, summary, variancePercentage: getVariancePercentage(summary.budgeted, summary.variance) }))
+    .filter(team => Math.abs(team.variancePercentage) > TEAM_VARIANCE_THRESHOLD)
+    .sort((a, b) => Math.abs(b.variancePercentage) - Math.abs(a.variancePercentage) || a.teamName.localeCompare(b.teamName))[0];
+
+  if (deviatingTeam) {
+    const { teamName, summary, variancePercentage: teamVariance } = deviatingTeam;
+    if (teamVariance > 0) {
+      return {
+        rule: 'team_over_budget',
+        text: `${teamName} is ${formatPercentage(teamVariance)} over budget. Review the team's workload and project priorities.`
+      };
+    }
+    if (summary.totalHours > 0 && summary.billableRatio < LOW_BILLABLE_RATIO) {
+      return {
+        rule: 'team_internal_load',
+        text: `${teamName} is ${formatPercentage(Math.abs(teamVariance))} under budget with only ${formatPercentage(summary.billableRatio)} of logged hours billable. Internal work is taking up the team's capacity; review its internal priorities.`
+      };
+    }
+    return {
+      rule: 'team_under_budget',
+      text: `${teamName} is ${formatPercentage(Math.abs(teamVariance))} under budget. Consider additional project assignments for the team.`
+    };
+  }
+
+  const { unbudgetedCount, withoutHoursCount } = data.reconciliation;
+  if (unbudgetedCount > 0 || withoutHoursCount > 0) {
+    const gaps = [
+      unbudgetedCount > 0 ? `${formatCount(unbudgetedCount, 'employee')} logged hours without a budget row` : null,
+      withoutHoursCount > 0 ? `${formatCount(withoutHoursCount, 'budgeted employee')} logged no hours` : null
+    ].filter((gap): gap is string => gap !== null);
+    return {
+      rule: 'data_quality',
+      text: `No variance calls for action, but ${gaps.join(' and ')}. Resolve these gaps before the figures are signed off.`
+    };
+  }
+
+  return {
+    rule: 'on_track',
+    text: `${data.scope} is within ${BUDGET_VARIANCE_THRESHOLD}% of budget and no team deviates more than ${TEAM_VARIANCE_THRESHOLD}%. No action is needed.`
+  };
+}
+
+/**
+ * Build the variance commentary paragraph
+ */
+function buildVarianceCommentary(current: ExecutiveSummaryData, previous: ExecutiveSummaryData | null, previousRange: PeriodRange | null): string {
+  const sentences: string[] = [];
+  const difference = Math.abs(current.budgetVariance);
+  const variancePercentage = getVariancePercentage(current.totalBudgeted, current.budgetVariance);
+
+  if (difference < 0.5) {
+    sentences.push(`Billed hours matched the budget of ${formatHours(current.totalBudgeted)} hours.`);
+  } else {
+    sentences.push(`Billed hours were ${formatHours(difference)} hours (${formatPercentage(Math.abs(variancePercentage))}) ${current.budgetVariance > 0 ? 'above' : 'below'} the budget of ${formatHours(current.totalBudgeted)} hours.`);
+  }
+
+  if (current.totalHours > 0) {
+    sentences.push(`${formatPercentage(current.billableRatio)} of the ${formatHours(current.totalHours)} logged hours were billable; ${formatHours(current.totalNonBillable)} hours went to internal and other non-billable work.`);
+  }
+
+  if (previous && previousRange && previous.totalBudgeted > 0) {
+    const change = current.utilizationRate - previous.utilizationRate;
+    sentences.push(`Utilization moved ${formatPoints(change)} from ${formatPercentage(previous.utilizationRate)} in ${previousRange.label}.`);
+  }
+
+  if (current.revenue) {
+    const { currency, realised, budgeted, variancePercentage: revenueVariance } = current.revenue;
+    sentences.push(`Realised revenue was ${formatAmount(currency, realised)} against a budgeted ${formatAmount(currency, budgeted)} (${describeVariance(revenueVariance)}).`);
+  }
+
+  return sentences.join(' ');
+}
+
+/**
+ * Turn executive summary data into a templated Markdown report with a headline, variance commentary,
+ * the top-moving teams and one recommendation. The report only depends on the data, so the same
+ * figures always give the same report.
+ * @param current - Executive summary data for the reported period
+ * @param previous - Executive summary data for the previous period of equal length, or null if it has no budget
+ * @param range - Reported period
+ */
+export function buildBudgetReport(
+  current: ExecutiveSummaryData,
+  previous: ExecutiveSummaryData | null,
+  range: PeriodRange,
+  options: BudgetReportOptions
+): BudgetReport {
+  const isSmallGroup = options.isSmallGroup ?? (() => false);
+  const previousRange = previous ? options.previousRange : null;
+  const variancePercentage = getVariancePercentage(current.totalBudgeted, current.budgetVariance);
+
+  const headline = current.totalBudgeted > 0
+    ? `${current.scope} billed ${formatHours(current.totalBilled)} of ${formatHours(current.totalBudgeted)} budgeted hours in ${range.label} (${formatPercentage(current.utilizationRate)} utilization), ${describeVariance(variancePercentage)}.`
+    : `${current.scope} had no budgeted hours in ${range.label} and billed ${formatHours(current.totalBilled)} hours.`;
+
+  const suppressedGroups = Object.keys(current.teamSummary).filter(isSmallGroup).sort();
+  const rankedTeams = rankTeamMovements(current, previous, isSmallGroup);
+  const topMovers = rankedTeams.slice(0, TOP_MOVERS_COUNT);
+  const recommendation = selectRecommendation(current, isSmallGroup);
+
+  const lines: string[] = [
+    `# Budget Report: ${current.scope}, ${range.label}`,
+    '',
+    `**${headline}**`,
+    '',
+    '## Variance',
+    '',
+    buildVarianceCommentary(current, previous, previousRange)
+  ];
+
+  // A single team has nothing to rank against
+  if (rankedTeams.length > 1) {
+    lines.push('', '## Top-Moving Teams', '');
+    lines.push(previousRange
+      ? `Teams with the largest change in utilization against ${previousRange.label}:`
+      : 'Teams with the largest deviation from budget:');
+    lines.push('');
+    topMovers.forEach(team => {
+      const change = team.utilizationChange !== null ? `, ${formatPoints(team.utilizationChange)} against ${previousRange?.label}` : '';
+      lines.push(`- **${team.team}**: ${formatHours(team.billed)} of ${formatHours(team.budgeted)} hours billed, ${formatPercentage(team.utilizationRate)} utilization (${describeVariance(team.variancePercentage)}${change})`);
+    });
+  }
+
+  lines.push('', '## Recommendation', '', recommendation.text);
+
+  const notes: string[] = [];
+  const { proRating } = current;
+  if (proRating?.currentMonth) {
+    const workingDays = proRating.workingDays.map(days => `${days.elapsed} of ${days.total} working days (${days.country})`).join(', ');
+    notes.push(`${proRating.currentMonth} is in progress: its budget is pro-rated to ${workingDays} as of ${proRating.asOf}.`);
+  }
+  if (current.revenue && current.revenue.unpriced.employeeCount > 0) {
+    notes.push(`Revenue excludes ${formatCount(current.revenue.unpriced.employeeCount, 'employee')} without an hourly rate.`);
+  }
+  if (suppressedGroups.length > 0) {
+    notes.push(`${suppressedGroups.join(', ')} ${suppressedGroups.length === 1 ? 'is' : 'are'} left out of the team commentary because ${suppressedGroups.length === 1 ? 'it has' : 'they have'} too few employees to report on individually.`);
+  }
+  if (notes.length > 0) {
+    lines.push('', '## Notes', '', ...notes.map(note => `- ${note}`));
+  }
+
+  return {
+    period: range.label,
+    scope: current.scope,
+    asOf: formatIsoDate(options.asOf),
+    headline,
+    topMovers,
+    recommendation,
+    suppressedGroups,
+    markdown: `${lines.join('\n')}\n`
+  };
+}
+
+/**
+ * Fetch the executive summary data for a period and its previous period and build the budget report.
+ * Small teams and entities are left out of the team commentary using the privacy roster.
+ * @param range - Period to report on
+ * @param teamFilter - Teams to include; all teams if omitted
+ * @param asOf - Date billed hours are compared as of
+ * @throws NoBudgetDataError if the budget files have no budget for the period
+ */
+export async function getBudgetReport(range: PeriodRange, teamFilter: TeamFilter = getAllTeamsFilter(), asOf: Date = new Date()): Promise<BudgetReport> {
+  const previousRange = getPreviousPeriodRange(range);
+
+  try {
+    // The previous period may predate the budget files; the report then has no movement against it
+    const hasPreviousBudget = await ensureBudgetForPeriod(previousRange).then(
+      () => true,
+      error => {
+        if (error instanceof NoBudgetDataError) {
+          return false;
+        }
+        throw error;
+      }
+    );
+
+    const [current, previous, roster] = await Promise.all([
+      getExecutiveSummaryAnalysis(range, teamFilter, asOf),
+      hasPreviousBudget ? getExecutiveSummaryAnalysis(previousRange, teamFilter, asOf) : Promise.resolve(null),
+      getPrivacyRoster(asOf)
+    ]);
+
+    const guard = createPrivacyGuard(roster);
+    return buildBudgetReport(current, previous, range, { previousRange, asOf, isSmallGroup: guard.isSmallGroup });
+  } catch (error) {
+    console.error('Failed to generate budget report:', error);
+    throw new Error(`Budget report failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+  }
+}
@@ -0,0 +1,188 @@
+import fs from 'fs';
+import path from 'path';
+import { generateText } from 'ai';
+import { getBudgetReport, RecommendationRule } from '@/lib/ai/reports/budgetReport';
+import { renderReportHtml, renderReportPdf } from '@/lib/ai/reports/renderers';
+import { getExecutiveSummary } from '@/lib/ai/tools';
+import { buildSystemPrompt } from '@/lib/ai/prompts/systemPrompt';
+import { getChatModel, getMissingAzureConfiguration } from '@/lib/ai/azure';
+import { getPrivacyRoster } from '@/lib/ai/privacy/roster';
+import { createPrivacyGuard, PrivacyGuard } from '@/lib/ai/privacy/guard';
+import { ensureBudgetForPeriod } from '@/lib/data/budgetRepository';
+import { getLegalEntities, getRegisteredTeams } from '@/lib/data/teamRegistry';
+import { addMonths, createPeriodRange, parsePeriod, toPeriodCode, PeriodParseError, PeriodRange } from '@/lib/utils/periodRange';
+import { getAllTeamsFilter, resolveTeamFilter, TeamFilter } from '@/lib/utils/teamMapping';
+import { formatIsoDate } from '@/lib/utils/workingDays';
+
+const DEFAULT_REPORTS_PATH = path.join('data', 'reports');
+
+// Tool calls the model may make while writing the commentary for one report
+const COMMENTARY_MAX_STEPS = 3;
+
+export interface MonthlyExportOptions {
+  /** Month to report on (e.g., "May 2025"); the previous closed month if omitted */
+  period?: string;
+  /** Directory the reports are written to; defaults to REPORTS_OUTPUT_PATH */
+  outputDirectory?: string;
+  /** Whether to add the assistant's written commentary (requires the Azure OpenAI configuration) */
+  commentary?: boolean;
+  /** Date the export runs as of; decides the previous closed month */
+  asOf?: Date;
+}
+
+export interface ExportedReport {
+  scope: string;
+  /** Report files relative to the output directory */
+  files: { markdown: string; html: string; pdf: string };
+  recommendation: RecommendationRule;
+  /** Whether the assistant's commentary is included */
+  hasCommentary: boolean;
+}
+
+export interface MonthlyExportResult {
+  period: string;
+  /** Date the export ran as of (YYYY-MM-DD) */
+  asOf: string;
+  /** Directory the reports of the month were written to */
+  directory: string;
+  reports: ExportedReport[];
+  /** Teams and entities too small to report on */
+  skipped: string[];
+  /** Teams and entities whose report could not be generated, with the error */
+  failed: { scope: string; error: string }[];
+}
+
+/**
+ * Get the directory monthly reports are written to, from REPORTS_OUTPUT_PATH (defaults to data/reports)
+ */
+export function getReportsDirectory(): string {
+  return path.resolve(process.cwd(), process.env.REPORTS_OUTPUT_PATH || DEFAULT_REPORTS_PATH);
+}
+
+/**
+ * Resolve the month to export: the given month, or the month before the as-of date
+ * @throws PeriodParseError if the period is not a single month or the month has not closed yet
+ */
+export function resolveExportMonth(period: string | undefined, asOf: Date): PeriodRange {
+  const currentMonth = toPeriodCode(asOf.getFullYear(), asOf.getMonth() + 1);
+  if (!period) {
+    const previousMonth = addMonths(currentMonth, -1);
+    return createPeriodRange(previousMonth, previousMonth, 'month');
+  }
+
+  const range = parsePeriod(period, asOf);
+  if (range.kind !== 'month') {
+    throw new PeriodParseError(period, 'monthly reports cover a single month');
+  }
+  if (range.monthCodes[0] >= currentMonth) {
+    throw new PeriodParseError(period, 'the month has not closed yet');
+  }
+  return range;
+}
+
+/**
+ * Company-wide, per legal entity and per team, in team registry order
+ */
+function getReportScopes(): TeamFilter[] {
+  return [
+    getAllTeamsFilter(),
+    ...getLegalEntities().map(entity => resolveTeamFilter(entity.name)),
+    ...getRegisteredTeams().map(team => resolveTeamFilter(team.displayName))
+  ];
+}
+
+/**
+ * File name of a scope's report (e.g., 'All Teams' -> 'all-teams', 'CST III' -> 'cst-iii')
+ */
+function toFileName(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Ask the assistant for its executive summary of the month, with the chat's system prompt and executive summary tool,
+ * so the archived commentary reads like the summary users get in the chat
+ */
+async function generateCommentary(teamFilter: TeamFilter, range: PeriodRange, guard: PrivacyGuard): Promise<string> {
+  const team = teamFilter.label === getAllTeamsFilter().label ? 'all teams' : teamFilter.label;
+  const { text } = await generateText({
+    model: getChatModel(),
+    system: buildSystemPrompt(),
+    prompt: `Write the executive summary for ${team} for ${range.label}.`,
+    tools: guard.wrapTools({ getExecutiveSummary }),
+    maxSteps: COMMENTARY_MAX_STEPS,
+    maxTokens: 2000,
+    temperature: 0.1
+  });
+
+  // Headings in the commentary are nested below the report's own sections
+  return guard.redactText(text).trim().replace(/^(#{1,5}) /gm, '$1## ');
+}
+
+/**
+ * Generate the budget report of a closed month for all teams, each legal entity and each team, and write it
+ * as Markdown, HTML and PDF to <output directory>/<YYYY-MM>/. Teams and entities too small to report on are skipped.
+ * A manifest.json in the month's directory lists the reports.
+ * @throws PeriodParseError if the period is not a closed month
+ * @throws NoBudgetDataError if the budget files have no budget for the month
+ */
+export async function exportMonthlyReports(options: MonthlyExportOptions = {}): Promise<MonthlyExportResult> {
+  const asOf = options.asOf ?? new Date();
+  const range = resolveExportMonth(options.period, asOf);
+  await ensureBudgetForPeriod(range);
+
+  let commentary = options.commentary ?? true;
+  const missingConfiguration = getMissingAzureConfiguration();
+  if (commentary && missingConfiguration) {
+    console.warn(`[Monthly Export] Commentary skipped: ${missingConfiguration}`);
+    commentary = false;
+  }
+
+  const monthCode = range.monthCodes[0];
+  const directory = path.join(options.outputDirectory ?? getReportsDirectory(), `${monthCode.substring(0, 4)}-${monthCode.substring(4, 6)}`);
+  await fs.promises.mkdir(directory, { recursive: true });
+
+  const guard = createPrivacyGuard(await getPrivacyRoster(asOf));
+  const result: MonthlyExportResult = { period: range.label, asOf: formatIsoDate(asOf), directory, reports: [], skipped: [], failed: [] };
+
+  // One scope at a time, to keep the load on the time registration database and the model low
+  for (const teamFilter of getReportScopes()) {
+    const scope = teamFilter.label;
+    if (guard.isSmallGroup(scope)) {
+      result.skipped.push(scope);
+      continue;
+    }
+
+    try {
+      const report = await getBudgetReport(range, teamFilter, asOf);
+
+      let markdown = report.markdown;
+      let hasCommentary = false;
+      if (commentary) {
+        try {
+          markdown += `\n## Commentary\n\n${await generateCommentary(teamFilter, range, guard)}\n`;
+          hasCommentary = true;
+        } catch (error) {
+          console.warn(`[Monthly Export] Commentary for ${scope} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      const title = `Budget Report: ${scope}, ${range.label}`;
+      const fileName = toFileName(scope);
+      const files = { markdown: `${fileName}.md`, html: `${fileName}.html`, pdf: `${fileName}.pdf` };
+      await Promise.all([
+        fs.promises.writeFile(path.join(directory, files.markdown), markdown, 'utf-8'),
+        fs.promises.writeFile(path.join(directory, files.html), renderReportHtml(markdown, title), 'utf-8'),
+        renderReportPdf(markdown, title).then(pdf => fs.promises.writeFile(path.join(directory, files.pdf), pdf))
+      ]);
+
+      result.reports.push({ scope, files, recommendation: report.recommendation.rule, hasCommentary });
+      console.log(`[Monthly Export] ${scope}: ${files.markdown}, ${files.html}, ${files.pdf}`);
+    } catch (error) {
+      console.error(`[Monthly Export] Report for ${scope} failed:`, error);
+      result.failed.push({ scope, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  await fs.promises.writeFile(path.join(directory, 'manifest.json'), `${JSON.stringify(result, null, 2)}\n`, 'utf-8');
+  return result;
+}
@@ -0,0 +1,171 @@
+import PDFDocument from 'pdfkit';
+import { Marked, Token, Tokens } from 'marked';
+
+// A4 with 2 cm margins, in PDF points
+const PAGE_MARGIN = 56;
+
+// Indent of list item text after the bullet
+const LIST_INDENT = 14;
+
+// Standard PDF fonts, which need no embedding
+const PDF_FONTS = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold',
+  italic: 'Helvetica-Oblique',
+  mono: 'Courier'
+} as const;
+
+type PdfFont = keyof typeof PDF_FONTS;
+
+// Characters the standard fonts can show: Latin-1 and the extra WinAnsiEncoding characters
+const UNSUPPORTED_PDF_CHARACTERS = /[^\u0020-\u007e\u00a0-\u00ff€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ\n]/gu;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Raw HTML in the Markdown (e.g., in model commentary) is shown as text instead of rendered
+const htmlMarked = new Marked({
+  gfm: true,
+  renderer: {
+    html: ({ text }) => escapeHtml(text)
+  }
+});
+
+/**
+ * Render a Markdown report as a standalone HTML document with inline styles, suitable for email
+ * @param markdown - Report Markdown
+ * @param title - Document title
+ */
+export function renderReportHtml(markdown: string, title: string): string {
+  const body = htmlMarked.parse(markdown, { async: false }) as string;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.5; color: #1f2937; max-width: 720px; margin: 32px auto; padding: 0 16px; }
+  h1 { font-size: 24px; margin-bottom: 16px; }
+  h2 { font-size: 18px; margin-top: 24px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #e5e7eb; padding: 4px 8px; text-align: left; }
+</style>
+</head>
+<body>
+${body}</body>
+</html>
+`;
+}
+
+/**
+ * Get the plain text of inline tokens, dropping emphasis and links but keeping their text
+ */
+function getPlainText(tokens: Token[] | undefined, fallback = ''): string {
+  if (!tokens) {
+    return fallback;
+  }
+
+  return tokens.map(token => {
+    if (token.type === 'br') {
+      return ' ';
+    }
+    if ('tokens' in token && token.tokens) {
+      return getPlainText(token.tokens, 'text' in token ? String(token.text) : '');
+    }
+    return 'text' in token ? String(token.text) : '';
+  }).join('');
+}
+
+/**
+ * Write Markdown block tokens to the document as headings, paragraphs, lists, tables and code
+ */
+function writeTokens(doc: PDFKit.PDFDocument, tokens: Token[]): void {
+  const width = doc.page.width - 2 * PAGE_MARGIN;
+
+  // Start a new page unless the first line fits, so a block's spacing and list marker stay with its text
+  const startBlock = (font: PdfFont, size: number, spaceBefore: number): number => {
+    doc.font(PDF_FONTS[font]).fontSize(size);
+    if (doc.y + spaceBefore + doc.currentLineHeight(true) > doc.page.maxY()) {
+      doc.addPage();
+    } else {
+      doc.y += spaceBefore;
+    }
+    return doc.y;
+  };
+
+  const writeText = (text: string, font: PdfFont, size: number, spaceBefore: number, indent = 0) => {
+    const y = startBlock(font, size, spaceBefore);
+    doc.text(text.replace(UNSUPPORTED_PDF_CHARACTERS, '?'), PAGE_MARGIN + indent, y, { width: width - indent, lineGap: size * 0.4 });
+  };
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'heading': {
+        const heading = token as Tokens.Heading;
+        writeText(getPlainText(heading.tokens, heading.text), 'bold', heading.depth === 1 ? 18 : 13, heading.depth === 1 ? 0 : 14);
+        break;
+      }
+      case 'paragraph': {
+        const paragraph = token as Tokens.Paragraph;
+        // A paragraph that is entirely bold or italic (e.g., the headline) keeps that style
+        const only = paragraph.tokens.length === 1 ? paragraph.tokens[0].type : null;
+        const font: PdfFont = only === 'strong' ? 'bold' : only === 'em' ? 'italic' : 'regular';
+        writeText(getPlainText(paragraph.tokens, paragraph.text), font, 10.5, 8);
+        break;
+      }
+      case 'list': {
+        const list = token as Tokens.List;
+        list.items.forEach((item, index) => {
+          const marker = list.ordered ? `${(Number(list.start) || 1) + index}.` : '•';
+          const y = startBlock('regular', 10.5, index === 0 ? 8 : 3);
+          doc.text(marker, PAGE_MARGIN, y, { lineBreak: false });
+          writeText(getPlainText(item.tokens, item.text), 'regular', 10.5, 0, LIST_INDENT);
+        });
+        break;
+      }
+      case 'table': {
+        const table = token as Tokens.Table;
+        writeText(table.header.map(cell => getPlainText(cell.tokens, cell.text)).join(' | '), 'bold', 9.5, 8);
+        table.rows.forEach(row => writeText(row.map(cell => getPlainText(cell.tokens, cell.text)).join(' | '), 'regular', 9.5, 2));
+        break;
+      }
+      case 'code':
+        writeText((token as Tokens.Code).text, 'mono', 9, 8);
+        break;
+      case 'blockquote':
+        writeTokens(doc, (token as Tokens.Blockquote).tokens);
+        break;
+      case 'space':
+      case 'hr':
+      case 'html':
+        break;
+      default:
+        writeText(getPlainText('tokens' in token ? token.tokens : undefined, 'text' in token ? String(token.text) : ''), 'regular', 10.5, 8);
+    }
+  }
+}
+
+/**
+ * Render a Markdown report as an A4 PDF document with headings, paragraphs and lists in the standard Helvetica fonts.
+ * Characters the standard fonts cannot show (outside Western European text) are printed as '?'.
+ * @param markdown - Report Markdown
+ * @param title - Document title, stored in the PDF metadata
+ */
+export function renderReportPdf(markdown: string, title: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, info: { Title: title } });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    try {
+      writeTokens(doc, new Marked({ gfm: true }).lexer(markdown));
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
@@ -0,0 +1,51 @@
+import { tool } from 'ai';
+import { budgetReportParamsSchema } from '@/lib/schemas/chat';
+import { getBudgetReport as buildReport } from '@/lib/ai/reports/budgetReport';
+import { parsePeriod, PeriodRange } from '@/lib/utils/periodRange';
+import { isAllTeams, resolveTeamFilter, TeamFilter } from '@/lib/utils/teamMapping';
+import { toToolError } from '@/lib/ai/tools/toolErrors';
+
+export const getBudgetReport = tool({
+  description: `Generate the standard written budget report for a period as Markdown: a headline, variance commentary, the top-moving teams and one recommendation. The report is built from the figures by fixed rules, so the same period always gives the same report. Use this when users ask for:
+  - A written, formal or monthly report
+  - The budget report for a month or quarter
+  - A report to share or send on
+
+  Parameters:
+  - period: Required time period (e.g., "May 2025", "Q1 2025", "last month")
+  - team: Optional team or legal entity filter (if not provided, reports on all teams)`,
+  parameters: budgetReportParamsSchema,
+  execute: async ({ period, team }) => {
+    const startTime = Date.now();
+    console.log(`[Budget Report Tool] Starting report - Period: ${period}, Team: ${team || 'All Teams'}`);
+
+    let range: PeriodRange;
+    let teamFilter: TeamFilter | undefined;
+    try {
+      range = parsePeriod(period);
+      teamFilter = team && !isAllTeams(team) ? resolveTeamFilter(team) : undefined;
+    } catch (error) {
+      console.warn(`[Budget Report Tool] Invalid parameters: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return toToolError(error, { period, team: team || 'All Teams' }, 'Failed to generate budget report');
+    }
+
+    try {
+      const report = await buildReport(range, teamFilter, new Date());
+
+      console.log(`[Budget Report Tool] Report completed in ${Date.now() - startTime}ms - recommendation: ${report.recommendation.rule}`);
+      return {
+        error: false as const,
+        period: report.period,
+        asOf: report.asOf,
+        team: report.scope,
+        headline: report.headline,
+        recommendation: report.recommendation,
+        markdown: report.markdown
+      };
+
+    } catch (error) {
+      console.error(`[Budget Report Tool] Error after ${Date.now() - startTime}ms:`, error);
+      return toToolError(error, { period, team: team || 'All Teams' }, 'Failed to generate budget report');
+    }
+  },
+});
@@ -0,0 +1,52 @@
+import { tool } from 'ai';
+import { dataQualityParamsSchema } from '@/lib/schemas/chat';
+import { getDataQualityReport } from '@/lib/ai/data/dataQualityData';
+import { toToolError } from '@/lib/ai/tools/toolErrors';
+
+export const getDataQuality = tool({
+  description: `Reconcile billed hours from the time registration system with the budget file and report data quality gaps for the finance team. Returns the number of matched employees, employees who logged hours but have no budget row, budgeted employees who logged no hours at all, and identity mapping problems (ambiguous or unresolvable employees). Use this when users ask about:
+  - Data quality, missing or unmatched employees
+  - Why numbers do not add up or look too good
+  - Whether the budget file is complete
+
+  Parameters:
+  - period: Required time period (e.g., "May 2025", "Q1 2025", "last month")
+  - team: Optional team or legal entity filter (if not provided, checks all teams)`,
+  parameters: dataQualityParamsSchema,
+  execute: async ({ period, team }) => {
+    const startTime = Date.now();
+    console.log(`[Data Quality Tool] Starting reconciliation - Period: ${period}, Team: ${team || 'All Teams'}`);
+
+    try {
+      const report = await getDataQualityReport(period, team);
+      const { summary, reconciliation } = report;
+
+      const result = {
+        error: false as const,
+        period: report.period,
+        team: report.scope,
+        summary,
+        teamSummary: report.teamSummary,
+        unbudgetedEmployees: reconciliation.unbudgeted.map(emp => ({
+          initials: emp.initials,
+          team: emp.team,
+          billedHours: emp.billedHours
+        })),
+        budgetedEmployeesWithoutHours: reconciliation.withoutHours,
+        // Unmapped employees matched by initials are expected and only reported as a count
+        identityIssues: reconciliation.diagnostics
+          .filter(diagnostic => diagnostic.severity === 'warning')
+          .map(diagnostic => ({ type: diagnostic.type, team: diagnostic.team, message: diagnostic.message })),
+        unmappedEmployeeCount: reconciliation.diagnostics.filter(diagnostic => diagnostic.type === 'unmapped').length,
+        hasGaps: summary.unbudgetedCount > 0 || summary.withoutHoursCount > 0 || summary.identityWarningCount > 0
+      };
+
+      console.log(`[Data Quality Tool] Reconciliation completed in ${Date.now() - startTime}ms - ${summary.matchedCount} matched, ${summary.unbudgetedCount} unbudgeted, ${summary.withoutHoursCount} without hours`);
+      return result;
+
+    } catch (error) {
+      console.error(`[Data Quality Tool] Error after ${Date.now() - startTime}ms:`, error);
+      return toToolError(error, { period, team: team || 'All Teams' }, 'Failed to reconcile data');
+    }
+  },
+});
@@ -0,0 +1,51 @@
+import { tool } from 'ai';
+import { entityComparisonParamsSchema } from '@/lib/schemas/chat';
+import { getExecutiveSummaryAnalysis } from '@/lib/ai/data/executiveSummaryData';
+import { generateEntityRollup } from '@/lib/ai/data/entityRollup';
+import { parsePeriod } from '@/lib/utils/periodRange';
+import { toToolError } from '@/lib/ai/tools/toolErrors';
+
+export const getEntityComparison = tool({
+  description: `Compare budget performance between Solitwork's legal entities (e.g., Solitwork Denmark vs Solitwork Deutschland) and company-wide. Returns budgeted and billed hours, variance and utilization per entity, computed from the team data. Use this when users ask about:
+  - How one entity is doing compared to another
+  - Denmark vs Deutschland (Germany) performance
+  - Entity-level or company-wide totals
+
+  Parameters:
+  - period: Required time period (e.g., "May 2025", "Q1 2025", "YTD 2025", "last month")`,
+  parameters: entityComparisonParamsSchema,
+  execute: async ({ period }) => {
+    const startTime = Date.now();
+    console.log(`[Entity Comparison Tool] Starting analysis - Period: ${period}`);
+
+    try {
+      const range = parsePeriod(period);
+      const analysisData = await getExecutiveSummaryAnalysis(range);
+      const { entities, company } = generateEntityRollup(analysisData.teamSummary);
+
+      // Order entities by utilization so the comparison reads from strongest to weakest
+      const rankedEntities = Object.values(entities).sort((a, b) => b.utilizationRate - a.utilizationRate);
+      const strongest = rankedEntities[0];
+      const weakest = rankedEntities[rankedEntities.length - 1];
+
+      const result = {
+        error: false as const,
+        period: range.label,
+        entities: rankedEntities,
+        company,
+        comparison: rankedEntities.length > 1 ? {
+          highestUtilization: strongest.entity,
+          lowestUtilization: weakest.entity,
+          utilizationGap: strongest.utilizationRate - weakest.utilizationRate
+        } : null
+      };
+
+      console.log(`[Entity Comparison Tool] Analysis completed in ${Date.now() - startTime}ms - ${rankedEntities.length} entities analyzed`);
+      return result;
+
+    } catch (error) {
+      console.error(`[Entity Comparison Tool] Error after ${Date.now() - startTime}ms:`, error);
+      return toToolError(error, { period }, 'Failed to compare entities');
+    }
+  },
+});
@@ -1,9 +1,14 @@
 import { tool } from 'ai';
 import { executiveSummaryParamsSchema } from '@/lib/schemas/chat';
 import { getExecutiveSummaryAnalysis } from '@/lib/ai/data/executiveSummaryData';
+import { parsePeriod, PeriodRange } from '@/lib/utils/periodRange';
+import { isAllTeams, resolveTeamFilter, TeamFilter } from '@/lib/utils/teamMapping';
+import { toToolError } from '@/lib/ai/tools/toolErrors';
+import { formatIsoDate } from '@/lib/utils/workingDays';
+import { BUDGET_VARIANCE_THRESHOLD, TEAM_VARIANCE_THRESHOLD, LOW_BILLABLE_RATIO, AT_RISK_VARIANCE_PERCENTAGE } from '@/lib/ai/data/analysisThresholds';
 
 export const getExecutiveSummary = tool({
-  description: `Generate comprehensive executive summary of budget performance including total budgeted vs billed hours, budget variance analysis, team performance breakdown, and actionable recommendations. Use this when users ask about:
+  description: `Generate comprehensive executive summary of budget performance including total budgeted vs billed hours, budget variance analysis, budgeted vs realised revenue, team performance breakdown, and actionable recommendations. Use this when users ask about:
   - Executive summary or overview
   - Budget performance or status
   - How teams are doing overall
@@ -11,16 +16,27 @@ export const getExecutiveSummary = tool({
   - Utilization rates
   
   Parameters:
-  - period: Required time period (e.g., "May 2025", "June 2025", "Q1 2024")
-  - team: Optional team filter to focus on specific team (if not provided, analyzes all teams)`,
+  - period: Required time period - a month ("May 2025"), quarter ("Q1 2025"), half-year ("H1 2025"), year to date ("YTD 2025"), explicit range ("March–May 2025") or relative period ("last month", "last quarter")
+  - team: Optional team or legal entity filter, e.g. "CST3", "CST III", "Denmark" or "Deutschland" (if not provided, analyzes all teams)`,
   parameters: executiveSummaryParamsSchema,
   execute: async ({ period, team }) => {
     const startTime = Date.now();
     console.log(`[Executive Summary Tool] Starting analysis - Period: ${period}, Team: ${team || 'All Teams'}`);
+
+    let range: PeriodRange;
+    let teamFilter: TeamFilter | undefined;
+    try {
+      range = parsePeriod(period);
+      teamFilter = team && !isAllTeams(team) ? resolveTeamFilter(team) : undefined;
+    } catch (error) {
+      console.warn(`[Executive Summary Tool] Invalid parameters: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return toToolError(error, { period, team: team || 'All Teams' }, 'Failed to generate executive summary');
+    }
     
     try {
-      // Fetch and analyze real data
-      const analysisData = await getExecutiveSummaryAnalysis(period);
+      // Fetch and analyze real data, scoped to the requested team or entity
+      const asOf = new Date();
+      const analysisData = await getExecutiveSummaryAnalysis(range, teamFilter, asOf);
       console.log(`[Executive Summary Tool] Data analysis completed in ${Date.now() - startTime}ms`);
       
       // Generate recommendations based on the analysis
@@ -32,7 +48,7 @@ export const getExecutiveSummary = tool({
         ? (analysisData.budgetVariance / analysisData.totalBudgeted) * 100 
         : 0;
 
-      if (Math.abs(variancePercentage) > 10) {
+      if (Math.abs(variancePercentage) > BUDGET_VARIANCE_THRESHOLD) {
         if (variancePercentage > 0) {
           recommendations.push(`Total hours are ${variancePercentage.toFixed(1)}% over budget - review resource allocation and project scope`);
           alerts.push({
@@ -54,9 +70,11 @@ export const getExecutiveSummary = tool({
           ? (teamData.variance / teamData.budgeted) * 100 
           : 0;
           
-        if (Math.abs(teamVariancePercentage) > 15) {
+        if (Math.abs(teamVariancePercentage) > TEAM_VARIANCE_THRESHOLD) {
           if (teamVariancePercentage > 0) {
             recommendations.push(`${teamName} team is ${teamVariancePercentage.toFixed(1)}% over budget - review workload and project priorities`);
+          } else if (teamData.totalHours > 0 && teamData.billableRatio < LOW_BILLABLE_RATIO) {
+            recommendations.push(`${teamName} team is ${Math.abs(teamVariancePercentage).toFixed(1)}% under budget with only ${teamData.billableRatio.toFixed(1)}% of logged hours billable - internal work is taking up capacity, review internal priorities`);
           } else {
             recommendations.push(`${teamName} team is ${Math.abs(teamVariancePercentage).toFixed(1)}% under budget - consider additional project assignments`);
           }
@@ -64,33 +82,74 @@ export const getExecutiveSummary = tool({
       });
 
       // Individual performance alerts
-      const highVarianceEmployees = analysisData.employeeAnalysis.filter(emp => Math.abs(emp.variancePercentage) > 20);
+      const highVarianceEmployees = analysisData.employeeAnalysis.filter(emp => Math.abs(emp.variancePercentage) > AT_RISK_VARIANCE_PERCENTAGE);
       if (highVarianceEmployees.length > 0) {
-        recommendations.push(`Review individual performance for ${highVarianceEmployees.length} employees with >20% variance from budget`);
+        recommendations.push(`Review individual performance for ${highVarianceEmployees.length} employees with >${AT_RISK_VARIANCE_PERCENTAGE}% variance from budget`);
+      }
+
+      // Data quality alerts
+      const { unbudgetedCount, withoutHoursCount } = analysisData.reconciliation;
+      if (unbudgetedCount > 0 || withoutHoursCount > 0) {
+        alerts.push({
+          type: 'warning',
+          message: `Data quality: ${unbudgetedCount} employees logged hours without a budget row and ${withoutHoursCount} budgeted employees logged no hours (counted as 0 billed)`
+        });
+      }
+
+      // Pro-rating alert, so partial months are not read as full months
+      const { proRating } = analysisData;
+      if (proRating?.currentMonth) {
+        const workingDays = proRating.workingDays.map(days => `${days.elapsed} of ${days.total} working days (${days.country})`).join(', ');
+        alerts.push({
+          type: 'info',
+          message: `${proRating.currentMonth} is in progress: its budget is pro-rated to ${workingDays} as of ${proRating.asOf}`
+        });
+      }
+
+      // Revenue alerts
+      const { revenue } = analysisData;
+      if (revenue && revenue.unpriced.employeeCount > 0) {
+        alerts.push({
+          type: 'warning',
+          message: `Revenue excludes ${revenue.unpriced.employeeCount} employees without an hourly rate (${revenue.unpriced.billedHours.toFixed(1)} billed hours)`
+        });
       }
 
       // Calculate additional metrics
-      const averageHourlyRate = analysisData.totalBilled > 0 ? 50 : 0; // Placeholder - would need rate data
       const employeesOverBudget = analysisData.employeeAnalysis.filter(emp => emp.variance > 0).length;
       const employeesUnderBudget = analysisData.employeeAnalysis.filter(emp => emp.variance < 0).length;
       const employeesOnTrack = analysisData.employeeAnalysis.filter(emp => Math.abs(emp.variancePercentage) <= 5).length;
 
       const result = {
-        period,
-        team: team || 'All Teams',
+        error: false as const,
+        period: range.label,
+        months: range.monthCodes,
+        asOf: formatIsoDate(asOf),
+        budgetProRating: proRating,
+        team: analysisData.scope,
         totalBudgeted: analysisData.totalBudgeted,
         totalBilled: analysisData.totalBilled,
         budgetVariance: variancePercentage,
         utilizationRate: analysisData.utilizationRate,
+        billableRatio: analysisData.billableRatio,
         keyMetrics: {
           budgetedHours: analysisData.totalBudgeted,
           billedHours: analysisData.totalBilled,
-          averageHourlyRate,
+          nonBillableHours: analysisData.totalNonBillable,
+          totalHours: analysisData.totalHours,
+          billableRatio: analysisData.billableRatio,
+          currency: revenue?.currency ?? null,
+          budgetedRevenue: revenue?.budgeted ?? null,
+          realisedRevenue: revenue?.realised ?? null,
+          averageHourlyRate: revenue?.averageHourlyRate ?? null,
           employeesOnTrack,
           employeesOverBudget,
           employeesUnderBudget
         },
         teamSummary: analysisData.teamSummary,
+        entitySummary: analysisData.entitySummary,
+        revenue,
+        reconciliation: analysisData.reconciliation,
         employeeAnalysis: analysisData.employeeAnalysis,
         recommendations,
         alerts
@@ -101,31 +160,7 @@ export const getExecutiveSummary = tool({
       
     } catch (error) {
       console.error(`[Executive Summary Tool] Error after ${Date.now() - startTime}ms:`, error);
-      
-      // Fallback to basic error response
-      return {
-        period,
-        team: team || 'All Teams',
-        error: true,
-        errorMessage: `Failed to generate executive summary: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        totalBudgeted: 0,
-        totalBilled: 0,
-        budgetVariance: 0,
-        utilizationRate: 0,
-        keyMetrics: {
-          budgetedHours: 0,
-          billedHours: 0,
-          averageHourlyRate: 0,
-          employeesOnTrack: 0,
-          employeesOverBudget: 0,
-          employeesUnderBudget: 0
-        },
-        recommendations: ['Unable to analyze data - please check database connection and data availability'],
-        alerts: [{
-          type: 'error',
-          message: 'Executive summary generation failed - using fallback data'
-        }]
-      };
+      return toToolError(error, { period, team: team || 'All Teams' }, 'Failed to generate executive summary');
     }
   },
 }); 
\ No newline at end of file
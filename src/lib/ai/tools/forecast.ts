@@ -0,0 +1,55 @@
+import { tool } from 'ai';
+import { forecastParamsSchema } from '@/lib/schemas/chat';
+import { getForecastAnalysis } from '@/lib/ai/data/forecastData';
+import { createToolError, toToolError } from '@/lib/ai/tools/toolErrors';
+
+export const getForecast = tool({
+  description: `Forecast where the year will land against the full-year budget. Combines actual billed hours for closed months with a projection for the remaining months, and returns the year-end landing estimate, the gap to the full-year budget and the billed hours needed per remaining month to close the gap, per team, per legal entity and company-wide. Use this when users ask about:
+  - Where we will land this year
+  - Whether we will hit the annual budget
+  - How many hours we need per month to reach budget
+
+  Parameters:
+  - year: Optional budget year (e.g., 2025); defaults to the current year
+  - method: Optional projection method - "budget" (default), "run-rate" or "seasonal"
+  - team: Optional team or legal entity filter (if not provided, forecasts all teams)`,
+  parameters: forecastParamsSchema,
+  execute: async ({ year, method, team }) => {
+    const startTime = Date.now();
+    const forecastYear = year ?? new Date().getFullYear();
+    console.log(`[Forecast Tool] Starting forecast - Year: ${forecastYear}, Method: ${method}, Team: ${team || 'All Teams'}`);
+
+    try {
+      const forecast = await getForecastAnalysis(forecastYear, method, team);
+
+      // Teams outside the budget files can still have a zero budget for a year other teams are budgeted for
+      if (forecast.company.fullYearBudget === 0) {
+        return createToolError('no_budget_data', `No budget data found for ${forecast.scope} in ${forecastYear}`, { year: forecastYear, team: forecast.scope });
+      }
+
+      const result = {
+        error: false as const,
+        year: forecast.year,
+        team: forecast.scope,
+        method: forecast.methodUsed,
+        methodNote: forecast.methodUsed !== forecast.method
+          ? `No closed months in ${forecast.year} yet, so the remaining months are projected on budget`
+          : null,
+        asOf: forecast.asOf,
+        closedMonths: forecast.closedMonths,
+        remainingMonths: forecast.remainingMonths,
+        company: forecast.company,
+        entities: Object.values(forecast.entities),
+        teams: Object.values(forecast.teams),
+        monthly: forecast.monthly
+      };
+
+      console.log(`[Forecast Tool] Forecast completed in ${Date.now() - startTime}ms - landing ${forecast.company.landingEstimate.toFixed(0)} of ${forecast.company.fullYearBudget.toFixed(0)} budgeted hours`);
+      return result;
+
+    } catch (error) {
+      console.error(`[Forecast Tool] Error after ${Date.now() - startTime}ms:`, error);
+      return toToolError(error, { year: forecastYear, team: team || 'All Teams' }, 'Failed to forecast');
+    }
+  },
+});
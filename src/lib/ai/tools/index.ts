@@ -1,2 +1,9 @@
 export { getExecutiveSummary } from '@/lib/ai/tools/executive-summary';
-// Note: getTeamPerformance tool skipped as per task requirements 
\ No newline at end of file
+export { getTeamPerformance } from '@/lib/ai/tools/team-performance';
+export { getEntityComparison } from '@/lib/ai/tools/entity-comparison';
+export { getDataQuality } from '@/lib/ai/tools/data-quality';
+export { getTrend } from '@/lib/ai/tools/trend';
+export { getForecast } from '@/lib/ai/tools/forecast';
+export { getProjectDrillDown } from '@/lib/ai/tools/project-drill-down';
+export { getBudgetReport } from '@/lib/ai/tools/budget-report';
+export { withUserScope } from '@/lib/ai/tools/scope';
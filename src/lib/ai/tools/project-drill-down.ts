@@ -0,0 +1,52 @@
+import { tool } from 'ai';
+import { projectDrillDownParamsSchema } from '@/lib/schemas/chat';
+import { getProjectDrillDownAnalysis } from '@/lib/ai/data/projectDrillDownData';
+import { toToolError } from '@/lib/ai/tools/toolErrors';
+
+export const getProjectDrillDown = tool({
+  description: `Break billed hours for a team and period down by client or project, to explain which work drove a budget variance. Returns the top contributing projects or clients with billable and non-billable hours, their share of the billable hours and the change against the previous period of equal length. Only aggregated hours and employee counts are returned, never individual names. Use this when users ask about:
+  - Which clients or projects drove a variance or a drop in billed hours
+  - Where a team spent its hours
+  - The largest clients or projects in a period
+
+  Parameters:
+  - period: Required time period - a month ("May 2025"), quarter ("Q1 2025"), range ("March–May 2025") or relative period ("last month")
+  - team: Optional team or legal entity filter (if not provided, includes all teams)
+  - groupBy: Optional "project" (default) or "client"
+  - sortBy: Optional "hours" (default) or "change" to rank by the change against the previous period
+  - limit: Optional number of top projects or clients (default 10)`,
+  parameters: projectDrillDownParamsSchema,
+  execute: async ({ period, team, groupBy, sortBy, limit }) => {
+    const startTime = Date.now();
+    console.log(`[Project Drill-Down Tool] Starting analysis - Period: ${period}, Team: ${team || 'All Teams'}, Group by: ${groupBy}`);
+
+    try {
+      const drillDown = await getProjectDrillDownAnalysis(
+        period,
+        team,
+        groupBy,
+        limit,
+        sortBy
+      );
+
+      const result = {
+        error: false as const,
+        period: drillDown.period,
+        previousPeriod: drillDown.previousPeriod,
+        team: drillDown.scope,
+        groupBy: drillDown.groupBy,
+        sortBy: drillDown.sortBy,
+        totals: drillDown.totals,
+        contributors: drillDown.contributors,
+        other: drillDown.other
+      };
+
+      console.log(`[Project Drill-Down Tool] Analysis completed in ${Date.now() - startTime}ms - ${drillDown.contributors.length + drillDown.other.count} ${groupBy === 'client' ? 'clients' : 'projects'}`);
+      return result;
+
+    } catch (error) {
+      console.error(`[Project Drill-Down Tool] Error after ${Date.now() - startTime}ms:`, error);
+      return toToolError(error, { period, team: team || 'All Teams' }, 'Failed to analyze projects');
+    }
+  },
+});
@@ -0,0 +1,59 @@
+import type { ToolSet } from 'ai';
+import { z } from 'zod';
+import { authorizeTeam, UserScope } from '@/lib/auth/accessControl';
+import { createToolError } from '@/lib/ai/tools/toolErrors';
+
+// Tool parameters that select a team or legal entity
+const TEAM_PARAMETERS = ['team', 'teamName'];
+
+function getTeamParameter(parameters: unknown): string | undefined {
+  if (!(parameters instanceof z.ZodObject)) {
+    return undefined;
+  }
+  return TEAM_PARAMETERS.find(name => name in parameters.shape);
+}
+
+/**
+ * Restrict tools to the teams a user may see. The team or entity argument of each tool call is checked
+ * against the user's scope and, when none is given, set to the user's own team or entity.
+ * Calls outside the scope, and tools without a team argument for users limited to a team or entity,
+ * return a not_authorized error instead of running.
+ * @param tools - Tools to restrict
+ * @param scope - Scope of the signed-in user
+ */
+export function withUserScope<TOOLS extends ToolSet>(tools: TOOLS, scope: UserScope): TOOLS {
+  const scoped: Record<string, unknown> = {};
+
+  for (const [name, definition] of Object.entries(tools)) {
+    const execute = definition.execute;
+    if (!execute) {
+      scoped[name] = definition;
+      continue;
+    }
+
+    const teamParameter = getTeamParameter(definition.parameters);
+
+    scoped[name] = {
+      ...definition,
+      execute: async (...[args, options]: Parameters<typeof execute>) => {
+        if (!teamParameter) {
+          if (!scope.teamFilter) {
+            return execute(args, options);
+          }
+          console.warn(`[Access Control] ${scope.user} is not authorized to call ${name}`);
+          return createToolError('not_authorized', `You are not authorized to view company-wide figures. Your access is limited to ${scope.teamFilter.label}.`);
+        }
+
+        const requestedTeam = typeof args?.[teamParameter] === 'string' ? args[teamParameter] : undefined;
+        const authorization = authorizeTeam(scope, requestedTeam);
+        if (!authorization.authorized) {
+          console.warn(`[Access Control] ${scope.user} is not authorized to call ${name} for ${requestedTeam}`);
+          return createToolError('not_authorized', authorization.reason, { team: requestedTeam });
+        }
+
+        return execute({ ...args, [teamParameter]: authorization.team }, options);
+      }
+    };
+  }
+  return scoped as TOOLS;
+}
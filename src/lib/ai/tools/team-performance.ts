@@ -1,92 +1,94 @@
 import { tool } from 'ai';
 import { teamPerformanceParamsSchema } from '@/lib/schemas/chat';
+import { getTeamPerformanceAnalysis } from '@/lib/ai/data/teamPerformanceData';
+import { AT_RISK_VARIANCE_PERCENTAGE, TEAM_VARIANCE_THRESHOLD } from '@/lib/ai/data/analysisThresholds';
+import { toToolError } from '@/lib/ai/tools/toolErrors';
+import { formatIsoDate } from '@/lib/utils/workingDays';
 
 export const getTeamPerformance = tool({
-  description: 'Analyze specific team budget performance with detailed breakdown and individual metrics',
+  description: `Analyze budget performance for one specific team, including budgeted vs billed hours, variance, headcount, month-over-month trend and the number of employees at risk. Use this when users ask about a single team, for example:
+  - "How is CST IV doing?"
+  - "Team performance for CST III in May 2025"
+  - "Is CST5 improving compared to last month?"
+
+  Parameters:
+  - teamName: Required team (e.g., "CST IV", "CST4" or "cst 4"); a legal entity ("Denmark", "Deutschland") analyzes all of its teams together
+  - period: Required time period - a month ("May 2025"), quarter ("Q1 2025"), explicit range ("March–May 2025") or relative period ("last month"). The trend compares against the previous period of equal length
+  - includeIndividuals: Whether to include the per-employee breakdown`,
   parameters: teamPerformanceParamsSchema,
   execute: async ({ teamName, period, includeIndividuals }) => {
-    // Simulated delay for MVP demo
-    await new Promise(resolve => setTimeout(resolve, 1200));
-    
-    // Dummy data for MVP - will be replaced with real data integration
-    const dummyData = {
-      teamName,
-      period,
-      teamMetrics: {
-        totalBudgeted: 180000,
-        totalBilled: 195600,
-        budgetVariance: 8.7,
-        utilizationRate: 108.7,
-        billableHours: 3200,
-        nonBillableHours: 400,
-        averageHourlyRate: 55,
-        teamSize: 8,
-        projectsAssigned: 4
-      },
-      performanceInsights: {
-        trend: 'over_budget',
-        efficiency: 'high',
-        riskLevel: 'medium',
-        notes: [
-          'Team is performing well but exceeding budget due to scope creep',
-          'High billable ratio indicates good client engagement',
-          'Consider additional resources for upcoming sprint'
-        ]
-      },
-      individualPerformance: includeIndividuals ? [
-        {
-          employeeName: 'Alice Johnson',
-          role: 'Senior Developer',
-          budgetedHours: 160,
-          billedHours: 172,
-          billableHours: 165,
-          nonBillableHours: 7,
-          utilizationRate: 107.5,
-          hourlyRate: 65,
-          projectsActive: 2
-        },
-        {
-          employeeName: 'Bob Smith',
-          role: 'Developer',
-          budgetedHours: 160,
-          billedHours: 158,
-          billableHours: 150,
-          nonBillableHours: 8,
-          utilizationRate: 98.8,
-          hourlyRate: 50,
-          projectsActive: 1
-        },
-        {
-          employeeName: 'Carol Davis',
-          role: 'UI/UX Designer',
-          budgetedHours: 120,
-          billedHours: 125,
-          billableHours: 115,
-          nonBillableHours: 10,
-          utilizationRate: 104.2,
-          hourlyRate: 55,
-          projectsActive: 3
+    const startTime = Date.now();
+    console.log(`[Team Performance Tool] Starting analysis - Team: ${teamName}, Period: ${period}`);
+
+    try {
+      const asOf = new Date();
+      const analysisData = await getTeamPerformanceAnalysis(teamName, period, asOf);
+      console.log(`[Team Performance Tool] Data analysis completed in ${Date.now() - startTime}ms`);
+
+      const { current, previous, trend, atRisk } = analysisData;
+      const recommendations: string[] = [];
+
+      if (Math.abs(current.variancePercentage) > TEAM_VARIANCE_THRESHOLD) {
+        if (current.variancePercentage > 0) {
+          recommendations.push(`${analysisData.teamName} is ${current.variancePercentage.toFixed(1)}% over budget - review workload and project priorities`);
+        } else {
+          recommendations.push(`${analysisData.teamName} is ${Math.abs(current.variancePercentage).toFixed(1)}% under budget - consider additional project assignments`);
         }
-      ] : [],
-      recommendations: [
-        'Review project scope and timeline with client to manage budget expectations',
-        'Consider promoting Bob Smith to senior role based on consistent performance',
-        'Implement time tracking improvements to reduce non-billable overhead'
-      ],
-      actionItems: [
-        {
-          priority: 'high',
-          item: 'Schedule budget review meeting with project stakeholders',
-          dueDate: '2024-02-15'
+      }
+
+      if (trend.direction === 'declining') {
+        recommendations.push(`Utilization dropped ${Math.abs(trend.utilizationChange).toFixed(1)} percentage points since ${previous.period} - check the project pipeline`);
+      }
+
+      if (atRisk.underBudget > 0) {
+        recommendations.push(`${atRisk.underBudget} of ${current.headcount} team members are more than ${AT_RISK_VARIANCE_PERCENTAGE}% under budget`);
+      }
+
+      const result = {
+        error: false as const,
+        teamName: analysisData.teamName,
+        period: current.period,
+        asOf: formatIsoDate(asOf),
+        budgetProRating: analysisData.proRating,
+        teamMetrics: {
+          totalBudgeted: current.budgeted,
+          totalBilled: current.billed,
+          totalNonBillable: current.nonBillable,
+          budgetVariance: current.variancePercentage,
+          utilizationRate: current.utilizationRate,
+          billableRatio: current.billableRatio,
+          teamSize: current.headcount
         },
-        {
-          priority: 'medium',
-          item: 'Evaluate resource allocation for Q2 planning',
-          dueDate: '2024-02-28'
-        }
-      ]
-    };
-    
-    return dummyData;
+        previousPeriod: {
+          period: previous.period,
+          totalBudgeted: previous.budgeted,
+          totalBilled: previous.billed,
+          totalNonBillable: previous.nonBillable,
+          budgetVariance: previous.variancePercentage,
+          utilizationRate: previous.utilizationRate,
+          billableRatio: previous.billableRatio,
+          teamSize: previous.headcount
+        },
+        trend,
+        atRisk,
+        individualPerformance: includeIndividuals
+          ? analysisData.employeeAnalysis.map(emp => ({
+              initials: emp.initials,
+              budgetedHours: emp.budgetedHours,
+              billedHours: emp.billedHours,
+              nonBillableHours: emp.nonBillableHours,
+              variancePercentage: emp.variancePercentage
+            }))
+          : [],
+        recommendations
+      };
+
+      console.log(`[Team Performance Tool] Analysis completed successfully - ${current.headcount} employees analyzed`);
+      return result;
+
+    } catch (error) {
+      console.error(`[Team Performance Tool] Error after ${Date.now() - startTime}ms:`, error);
+      return toToolError(error, { teamName, period }, 'Failed to analyze team performance');
+    }
   },
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,96 @@
+import { PeriodParseError } from '@/lib/utils/periodRange';
+import { UnknownTeamError } from '@/lib/utils/teamMapping';
+import { NoBudgetDataError } from '@/lib/data/budgetRepository';
+import { DataFileError } from '@/lib/data/csvReader';
+import { DatabaseUnavailableError } from '@/lib/database/connection';
+
+/**
+ * Why a tool could not produce a result
+ * - invalid_period: the period could not be parsed
+ * - unknown_team: the team or entity could not be resolved
+ * - no_budget_data: the budget files have no budget for the period
+ * - database_unavailable: the time registration database cannot be reached
+ * - data_unavailable: a budget or data file is missing or cannot be read
+ * - not_authorized: the team or entity is outside the user's access scope
+ * - insufficient_group_size: the team or entity is too small to report on without identifying employees
+ * - internal_error: any other failure
+ */
+export type ToolErrorType =
+  | 'invalid_period'
+  | 'unknown_team'
+  | 'no_budget_data'
+  | 'database_unavailable'
+  | 'data_unavailable'
+  | 'not_authorized'
+  | 'insufficient_group_size'
+  | 'internal_error';
+
+/**
+ * Result of a tool that failed. Successful results carry `error: false`, so tool results are
+ * discriminated on `error` and a failure never looks like a result with 0 hours.
+ */
+export interface ToolError {
+  error: true;
+  errorType: ToolErrorType;
+  errorMessage: string;
+  /** Whether asking again later can succeed (e.g., after the database is back) */
+  retryable: boolean;
+}
+
+// Errors that may go away when the user asks again later; the others need a different question
+const RETRYABLE_ERRORS = new Set<ToolErrorType>(['database_unavailable', 'data_unavailable', 'internal_error']);
+
+/**
+ * Create a tool error
+ * @param context - Request fields to echo back, e.g. { period, team }
+ */
+export function createToolError<C extends object>(errorType: ToolErrorType, errorMessage: string, context: C = {} as C): ToolError & C {
+  return { ...context, error: true, errorType, errorMessage, retryable: RETRYABLE_ERRORS.has(errorType) };
+}
+
+/**
+ * Find the first error in an error's cause chain that matches a check
+ */
+function findCause<E extends Error>(error: unknown, matches: (candidate: unknown) => candidate is E): E | null {
+  for (let current = error; current; current = current instanceof Error ? current.cause : undefined) {
+    if (matches(current)) {
+      return current;
+    }
+  }
+  return null;
+}
+
+/**
+ * Map an error thrown while running a tool to a tool error. Typed errors are also found when they
+ * were wrapped by the data layer (as the `cause` of the wrapping error).
+ * @param context - Request fields to echo back, e.g. { period, team }
+ * @param failureMessage - Message prefix for unexpected errors (e.g., 'Failed to generate executive summary')
+ */
+export function toToolError<C extends object>(error: unknown, context: C, failureMessage: string): ToolError & C {
+  const periodError = findCause(error, (candidate): candidate is PeriodParseError => candidate instanceof PeriodParseError);
+  if (periodError) {
+    return createToolError('invalid_period', periodError.message, context);
+  }
+
+  const teamError = findCause(error, (candidate): candidate is UnknownTeamError => candidate instanceof UnknownTeamError);
+  if (teamError) {
+    return createToolError('unknown_team', teamError.message, context);
+  }
+
+  const budgetError = findCause(error, (candidate): candidate is NoBudgetDataError => candidate instanceof NoBudgetDataError);
+  if (budgetError) {
+    return createToolError('no_budget_data', budgetError.message, context);
+  }
+
+  // Connection details stay in the server log; the model only needs to know the source is down
+  if (findCause(error, (candidate): candidate is DatabaseUnavailableError => candidate instanceof DatabaseUnavailableError)) {
+    return createToolError('database_unavailable', 'The time registration database is not available right now, so billed hours cannot be retrieved', context);
+  }
+
+  const fileError = findCause(error, (candidate): candidate is DataFileError => candidate instanceof DataFileError);
+  if (fileError) {
+    return createToolError('data_unavailable', `Data cannot be read: ${fileError.message}`, context);
+  }
+
+  return createToolError('internal_error', `${failureMessage}: ${error instanceof Error ? error.message : 'Unknown error'}`, context);
+}
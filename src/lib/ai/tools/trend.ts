@@ -0,0 +1,41 @@
+import { tool } from 'ai';
+import { trendParamsSchema } from '@/lib/schemas/chat';
+import { getTrendAnalysis } from '@/lib/ai/data/trendData';
+import { toToolError } from '@/lib/ai/tools/toolErrors';
+
+export const getTrend = tool({
+  description: `Analyze how budget performance develops month by month over a period. Returns a monthly series of budgeted hours, billed hours, variance and utilization company-wide and per team, with the change against the previous month and cumulative year-to-date figures for each month. Use this when users ask about:
+  - Whether utilization is getting better or worse
+  - Month-over-month development or trends
+  - Year-to-date progress month by month
+
+  Parameters:
+  - period: Required period covering several months (e.g., "YTD 2025", "H1 2025", "Q2 2025", "January–June 2025"); at most 24 months counted from January of its first year
+  - team: Optional team or legal entity filter (if not provided, includes all teams)`,
+  parameters: trendParamsSchema,
+  execute: async ({ period, team }) => {
+    const startTime = Date.now();
+    console.log(`[Trend Tool] Starting analysis - Period: ${period}, Team: ${team || 'All Teams'}`);
+
+    try {
+      const trendData = await getTrendAnalysis(period, team);
+
+      const result = {
+        error: false as const,
+        period: trendData.period,
+        team: trendData.scope,
+        asOf: trendData.asOf,
+        summary: trendData.summary,
+        company: trendData.company,
+        teams: trendData.teams
+      };
+
+      console.log(`[Trend Tool] Analysis completed in ${Date.now() - startTime}ms - ${trendData.company.length} months, ${Object.keys(trendData.teams).length} teams`);
+      return result;
+
+    } catch (error) {
+      console.error(`[Trend Tool] Error after ${Date.now() - startTime}ms:`, error);
+      return toToolError(error, { period, team: team || 'All Teams' }, 'Failed to analyze trend');
+    }
+  },
+});
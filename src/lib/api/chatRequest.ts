@@ -0,0 +1,108 @@
+import { chatRequestSchema, ChatRequest } from '@/lib/schemas/chat';
+import { apiErrorResponse } from '@/lib/api/errors';
+
+/**
+ * Limits on chat requests, from environment variables
+ */
+export interface ChatLimits {
+  /** Maximum size of the request body in bytes (CHAT_MAX_BODY_BYTES, default 32 KB) */
+  maxBodyBytes: number;
+  /** Maximum length of one message in characters (CHAT_MAX_MESSAGE_LENGTH, default 4000) */
+  maxMessageLength: number;
+  /** Maximum number of messages in a conversation, including the new one (CHAT_MAX_MESSAGES, default 50) */
+  maxMessages: number;
+  /** Maximum estimated tokens of the conversation sent to the model (CHAT_MAX_HISTORY_TOKENS, default 24000) */
+  maxHistoryTokens: number;
+  /** Maximum chat requests per user per minute (CHAT_RATE_LIMIT_PER_MINUTE, default 20) */
+  requestsPerMinute: number;
+}
+
+// Rough characters per token for English and Danish text, used to estimate tokens without a tokenizer
+const CHARACTERS_PER_TOKEN = 4;
+
+function readLimit(name: string, defaultValue: number): number {
+  const configured = Number(process.env[name]);
+  return process.env[name] && Number.isInteger(configured) && configured > 0 ? configured : defaultValue;
+}
+
+/**
+ * Get the chat request limits from the environment
+ */
+export function getChatLimits(): ChatLimits {
+  return {
+    maxBodyBytes: readLimit('CHAT_MAX_BODY_BYTES', 32 * 1024),
+    maxMessageLength: readLimit('CHAT_MAX_MESSAGE_LENGTH', 4000),
+    maxMessages: readLimit('CHAT_MAX_MESSAGES', 50),
+    maxHistoryTokens: readLimit('CHAT_MAX_HISTORY_TOKENS', 24000),
+    requestsPerMinute: readLimit('CHAT_RATE_LIMIT_PER_MINUTE', 20)
+  };
+}
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARACTERS_PER_TOKEN);
+}
+
+/**
+ * Read and validate the body of a chat request
+ * @returns The request, or the error response to return: 413 if the body or message is too large,
+ * 400 if the body is not valid JSON, does not match the chat request schema or sends a system or tool message
+ */
+export async function parseChatRequest(req: Request, limits: ChatLimits): Promise<ChatRequest | Response> {
+  const tooLarge = () => apiErrorResponse(413, 'payload_too_large', `The request is larger than ${limits.maxBodyBytes} bytes`);
+
+  const declaredLength = Number(req.headers.get('content-length'));
+  if (declaredLength > limits.maxBodyBytes) {
+    return tooLarge();
+  }
+
+  const text = await req.text();
+  if (Buffer.byteLength(text, 'utf-8') > limits.maxBodyBytes) {
+    return tooLarge();
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return apiErrorResponse(400, 'invalid_request', 'The request body is not valid JSON');
+  }
+
+  const parsed = chatRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    const details = parsed.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`);
+    return apiErrorResponse(400, 'invalid_request', 'The chat request is invalid', { details });
+  }
+
+  const { message } = parsed.data;
+  if (message.role !== 'user') {
+    return apiErrorResponse(400, 'invalid_request', `Messages with role '${message.role}' cannot be sent; only user messages are accepted`);
+  }
+
+  if (message.content.length > limits.maxMessageLength) {
+    return apiErrorResponse(413, 'payload_too_large', `The message is longer than ${limits.maxMessageLength} characters. Please shorten your question.`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Check that a conversation, including the new message, fits the message count and token budget.
+ * Stored tool calls and results count towards the tokens, since they are sent to the model with the answers.
+ * @returns The 413 error response to return, or null if the conversation is within the limits
+ */
+export function checkConversationLimits(messages: { content: string; toolInvocations?: unknown[] }[], limits: ChatLimits): Response | null {
+  if (messages.length > limits.maxMessages) {
+    return apiErrorResponse(413, 'payload_too_large', `This conversation has reached the limit of ${limits.maxMessages} messages. Please start a new conversation.`);
+  }
+
+  const tokens = messages.reduce((sum, message) =>
+    sum + estimateTokens(message.content) + (message.toolInvocations ? estimateTokens(JSON.stringify(message.toolInvocations)) : 0), 0);
+  if (tokens > limits.maxHistoryTokens) {
+    return apiErrorResponse(413, 'payload_too_large', 'This conversation is too long for the assistant to take into account. Please start a new conversation.');
+  }
+
+  return null;
+}
@@ -0,0 +1,68 @@
+import type { ToolError, ToolErrorType } from '@/lib/ai/tools/toolErrors';
+
+/**
+ * Error codes returned by the API routes, so the UI can explain what went wrong
+ */
+export type ApiErrorCode =
+  | 'invalid_request'
+  | 'unauthenticated'
+  | 'forbidden'
+  | 'not_found'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'service_unavailable'
+  | 'internal_error';
+
+// HTTP status and error code for each tool error, for routes that run the analyses outside the chat
+const TOOL_ERROR_RESPONSES: Record<ToolErrorType, { status: number; code: ApiErrorCode }> = {
+  invalid_period: { status: 400, code: 'invalid_request' },
+  unknown_team: { status: 400, code: 'invalid_request' },
+  no_budget_data: { status: 404, code: 'not_found' },
+  database_unavailable: { status: 503, code: 'service_unavailable' },
+  data_unavailable: { status: 503, code: 'service_unavailable' },
+  not_authorized: { status: 403, code: 'forbidden' },
+  insufficient_group_size: { status: 403, code: 'forbidden' },
+  internal_error: { status: 500, code: 'internal_error' }
+};
+
+/**
+ * JSON body of an API error response
+ */
+export interface ApiErrorBody {
+  /** Message that can be shown to the user */
+  error: string;
+  code: ApiErrorCode;
+  /** Validation issues, one per invalid field, or the tool error type for analysis failures */
+  details?: string[];
+  /** Seconds until the request may be retried (rate_limited only) */
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Create a JSON error response
+ * @param status - HTTP status code (e.g., 400, 413, 429)
+ * @param code - Error code the UI can act on
+ * @param message - Message that can be shown to the user
+ */
+export function apiErrorResponse(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  options: { details?: string[]; retryAfterSeconds?: number } = {}
+): Response {
+  const body: ApiErrorBody = { error: message, code, ...options };
+  const headers: Record<string, string> = {};
+  if (options.retryAfterSeconds !== undefined) {
+    headers['Retry-After'] = String(options.retryAfterSeconds);
+  }
+  return Response.json(body, { status, headers });
+}
+
+
+/**
+ * Create a JSON error response for a tool error (e.g., 404 for no_budget_data, 503 for database_unavailable)
+ */
+export function toolErrorResponse(toolError: ToolError): Response {
+  const { status, code } = TOOL_ERROR_RESPONSES[toolError.errorType];
+  return apiErrorResponse(status, code, toolError.errorMessage, { details: [toolError.errorType] });
+}
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import { accessControlSchema, AccessControl, UserRole } from '@/lib/schemas/accessControl';
+import { AuthIdentity } from '@/lib/auth/authProvider';
+import { isAllTeams, resolveTeamFilter, TeamFilter, UnknownTeamError } from '@/lib/utils/teamMapping';
+
+const DEFAULT_ACCESS_CONTROL_PATH = path.join('data', 'config', 'access.json');
+
+let cachedAccessControl: AccessControl | null = null;
+
+/**
+ * What an authenticated user may see
+ */
+export interface UserScope {
+  user: string;
+  name: string | null;
+  role: UserRole;
+  /** Teams the user may see, or null for all teams */
+  teamFilter: TeamFilter | null;
+}
+
+/**
+ * Outcome of checking a requested team against a user's scope. An authorized request carries
+ * the team to analyze: the requested team, or the user's own team or entity if none was requested.
+ */
+export type TeamAuthorization =
+  | { authorized: true; team: string | undefined }
+  | { authorized: false; reason: string };
+
+/**
+ * Load and validate the access control list from ACCESS_CONTROL_PATH (defaults to data/config/access.json).
+ * A missing file means no user has access. The list is read once per process.
+ * @throws Error if the file does not match the access control schema
+ */
+export function getAccessControl(): AccessControl {
+  if (cachedAccessControl) {
+    return cachedAccessControl;
+  }
+
+  const accessControlPath = path.resolve(process.cwd(), process.env.ACCESS_CONTROL_PATH || DEFAULT_ACCESS_CONTROL_PATH);
+
+  if (!fs.existsSync(accessControlPath)) {
+    console.warn(`Access control list not found: ${accessControlPath} - no user has access`);
+    cachedAccessControl = { users: [] };
+    return cachedAccessControl;
+  }
+
+  const parsed = accessControlSchema.safeParse(JSON.parse(fs.readFileSync(accessControlPath, 'utf-8')));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid access control list ${accessControlPath}: ${issues}`);
+  }
+
+  cachedAccessControl = parsed.data;
+  return cachedAccessControl;
+}
+
+/**
+ * Look up the scope of an authenticated user in the access control list (case-insensitive)
+ * @returns The user's scope, or null if the user is not in the list
+ * @throws Error if the user's entry names an unknown team or entity
+ */
+export function resolveUserScope(identity: AuthIdentity): UserScope | null {
+  const user = identity.user.trim().toLowerCase();
+  const entry = getAccessControl().users.find(candidate => candidate.user.trim().toLowerCase() === user);
+  if (!entry) {
+    return null;
+  }
+
+  let teamFilter: TeamFilter | null = null;
+  try {
+    if (entry.role === 'entity_manager') {
+      teamFilter = resolveTeamFilter(entry.entity);
+    } else if (entry.role === 'team_lead') {
+      teamFilter = resolveTeamFilter(entry.team);
+    }
+  } catch (error) {
+    if (error instanceof UnknownTeamError) {
+      throw new Error(`Invalid access control entry for ${entry.user}: ${error.message}`);
+    }
+    throw error;
+  }
+
+  return { user: identity.user, name: identity.name, role: entry.role, teamFilter };
+}
+
+/**
+ * Check a requested team or entity against the user's scope. Users limited to a team or entity
+ * get their own team or entity when they request none, and are refused teams outside it.
+ * Unknown team names are passed through, so the tool reports them as unknown.
+ * @param requestedTeam - Team or entity requested in the tool call, if any
+ */
+export function authorizeTeam(scope: UserScope, requestedTeam?: string): TeamAuthorization {
+  if (!scope.teamFilter) {
+    return { authorized: true, team: requestedTeam };
+  }
+
+  if (!requestedTeam || isAllTeams(requestedTeam)) {
+    return { authorized: true, team: scope.teamFilter.label };
+  }
+
+  let requestedFilter: TeamFilter;
+  try {
+    requestedFilter = resolveTeamFilter(requestedTeam);
+  } catch (error) {
+    if (error instanceof UnknownTeamError) {
+      return { authorized: true, team: requestedTeam };
+    }
+    throw error;
+  }
+
+  const allowedTeams = scope.teamFilter.databaseTeamNames;
+  if (requestedFilter.databaseTeamNames.every(team => allowedTeams.includes(team))) {
+    return { authorized: true, team: requestedTeam };
+  }
+
+  return {
+    authorized: false,
+    reason: `You are not authorized to view figures for ${requestedFilter.label}. Your access is limited to ${scope.teamFilter.label}.`
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Authenticated user, as reported by the auth provider
+ */
+export interface AuthIdentity {
+  /** User principal name, matched against the access control list (e.g., 'jane@solitwork.dk') */
+  user: string;
+  /** Display name, if the provider reports one */
+  name: string | null;
+  /** Provider that authenticated the user (e.g., 'easy-auth', 'dev') */
+  provider: string;
+}
+
+/**
+ * Backend that authenticates the user of a request
+ */
+export interface AuthProvider {
+  /** Short identifier used in logs (e.g. 'easy-auth', 'dev') */
+  readonly name: string;
+  /**
+   * Authenticate the user of a request
+   * @returns The identity, or null if the request is not authenticated
+   */
+  authenticate(req: Request): Promise<AuthIdentity | null>;
+}
+
+const DEFAULT_DEV_USER = 'developer@localhost';
+
+/**
+ * Auth provider for Azure App Service Authentication (Easy Auth), which signs users in before
+ * requests reach the app and passes the user in x-ms-client-principal headers.
+ * Only use it behind App Service Authentication, which strips these headers from incoming requests.
+ */
+export function createEasyAuthProvider(): AuthProvider {
+  return {
+    name: 'easy-auth',
+    async authenticate(req: Request): Promise<AuthIdentity | null> {
+      const user = req.headers.get('x-ms-client-principal-name');
+      if (!user) {
+        return null;
+      }
+
+      // The encoded principal carries the claims, including the display name
+      let name: string | null = null;
+      const principal = req.headers.get('x-ms-client-principal');
+      if (principal) {
+        try {
+          const decoded = JSON.parse(Buffer.from(principal, 'base64').toString('utf-8'));
+          const claims: { typ: string; val: string }[] = Array.isArray(decoded.claims) ? decoded.claims : [];
+          name = claims.find(claim => claim.typ === 'name')?.val ?? null;
+        } catch (error) {
+          console.warn(`Could not decode x-ms-client-principal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      return { user, name, provider: 'easy-auth' };
+    }
+  };
+}
+
+/**
+ * Auth provider for local development that signs every request in as AUTH_DEV_USER
+ * (default developer@localhost). Refuses to run in production.
+ */
+export function createDevAuthProvider(): AuthProvider {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error("AUTH_PROVIDER 'dev' cannot be used in production");
+  }
+
+  return {
+    name: 'dev',
+    async authenticate(): Promise<AuthIdentity | null> {
+      return { user: process.env.AUTH_DEV_USER || DEFAULT_DEV_USER, name: 'Local Developer', provider: 'dev' };
+    }
+  };
+}
+
+/**
+ * Get the auth provider selected by the AUTH_PROVIDER environment variable
+ * ('easy-auth', or 'dev' for local development). Defaults to 'easy-auth' in production and 'dev' otherwise.
+ */
+export function getAuthProvider(): AuthProvider {
+  const defaultProvider = process.env.NODE_ENV === 'production' ? 'easy-auth' : 'dev';
+  const providerName = (process.env.AUTH_PROVIDER || defaultProvider).trim().toLowerCase();
+
+  switch (providerName) {
+    case 'easy-auth':
+      return createEasyAuthProvider();
+    case 'dev':
+      return createDevAuthProvider();
+    default:
+      throw new Error(`Unknown AUTH_PROVIDER '${providerName}'. Expected 'easy-auth' or 'dev'`);
+  }
+}
@@ -0,0 +1,23 @@
+import { getAuthProvider } from '@/lib/auth/authProvider';
+import { resolveUserScope, UserScope } from '@/lib/auth/accessControl';
+import { apiErrorResponse } from '@/lib/api/errors';
+
+/**
+ * Authenticate the user of an API request and look up their scope
+ * @returns The user's scope, or the error response to return: 401 if the request is not authenticated,
+ * 403 if the user is not in the access control list
+ */
+export async function authorizeRequest(req: Request): Promise<UserScope | Response> {
+  const identity = await getAuthProvider().authenticate(req);
+  if (!identity) {
+    return apiErrorResponse(401, 'unauthenticated', 'Please sign in to use the budget assistant');
+  }
+
+  const scope = resolveUserScope(identity);
+  if (!scope) {
+    console.warn(`Access denied: ${identity.user} is not in the access control list`);
+    return apiErrorResponse(403, 'forbidden', 'You do not have access to budget data');
+  }
+
+  return scope;
+}
@@ -0,0 +1,416 @@
+import path from 'path';
+import fs from 'fs';
+import sql from 'mssql';
+import { executeQuery, QueryParameter } from '@/lib/database/connection';
+import { readCsvFile } from '@/lib/data/csvReader';
+import { PeriodRange } from '@/lib/utils/periodRange';
+import { getKnownDatabaseTeams } from '@/lib/utils/teamMapping';
+import { createTtlCache } from '@/lib/utils/cache';
+
+/**
+ * Logged hours per employee, as returned by the Harvest warehouse query
+ */
+export interface DatabaseEmployeeData {
+  EmployeeName: string;
+  EmployeeID_EmployeeNiv1: string;
+  /** Hours on billable entries (IsBillableKey = 1) */
+  BillableHours: number;
+  /** Hours on internal and other non-billable entries */
+  NonBillableHours: number;
+  /** All logged hours, billable and non-billable */
+  TotalHours: number;
+}
+
+/**
+ * Logged hours per client, project and team, as returned by the Harvest warehouse query.
+ * Employees are only counted, so the rows never identify individuals.
+ */
+export interface ProjectHoursData {
+  ClientName: string;
+  ProjectName: string;
+  EmployeeID_EmployeeNiv1: string;
+  BillableHours: number;
+  NonBillableHours: number;
+  TotalHours: number;
+  /** Number of distinct employees who logged hours on the project */
+  EmployeeCount: number;
+}
+
+/**
+ * A single Harvest time entry as stored in the warehouse view.
+ * Several rows can share a DW_ID when an entry was reloaded in a later batch.
+ */
+export interface HarvestEntry {
+  DW_ID: string;
+  EmployeeName: string;
+  EmployeeID_EmployeeNiv1: string;
+  Hours: number;
+  IsBillableKey: number;
+  Date: string;
+  DW_Batch_Created: string;
+  ClientName: string;
+  ProjectName: string;
+}
+
+/**
+ * Backend that provides billed hours per employee for a period
+ */
+export interface BilledHoursSource {
+  /** Short identifier used in logs (e.g. 'mssql', 'file') */
+  readonly name: string;
+  /**
+   * Fetch billable, non-billable and total hours per employee summed over a period range
+   * @param range - Parsed period range (e.g. from parsePeriod('Q1 2025'))
+   * @param teamCodes - Teams in database format to include (defaults to all teams in the team registry)
+   */
+  fetchBilledHours(range: PeriodRange, teamCodes?: string[]): Promise<DatabaseEmployeeData[]>;
+  /**
+   * Fetch billable, non-billable and total hours per client, project and team summed over a period range
+   * @param range - Parsed period range (e.g. from parsePeriod('Q1 2025'))
+   * @param teamCodes - Teams in database format to include (defaults to all teams in the team registry)
+   */
+  fetchProjectHours(range: PeriodRange, teamCodes?: string[]): Promise<ProjectHoursData[]>;
+}
+
+const DEFAULT_FIXTURE_PATH = path.join('data', 'fixtures', 'harvest_entries.csv');
+
+// Cache lifetimes for billed hours: closed months rarely change, the current month changes throughout the day
+const DEFAULT_CLOSED_PERIOD_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_OPEN_PERIOD_TTL_SECONDS = 5 * 60;
+
+// Client and project names for entries without a project in Harvest
+const NO_CLIENT = '(No client)';
+const NO_PROJECT = '(No project)';
+
+const billedHoursCache = createTtlCache<DatabaseEmployeeData[]>('billedHours');
+const projectHoursCache = createTtlCache<ProjectHoursData[]>('projectHours');
+
+/**
+ * Build one query parameter per team (@team0, @team1, ...) and the matching IN list.
+ * Callers must pass at least one team, since `IN ()` is a syntax error.
+ */
+function buildTeamParameters(teamCodes: string[]): { parameters: Record<string, QueryParameter>; inList: string } {
+  const parameters: Record<string, QueryParameter> = {};
+  teamCodes.forEach((teamCode, index) => {
+    parameters[`team${index}`] = { type: sql.VarChar(50), value: teamCode };
+  });
+
+  return { parameters, inList: Object.keys(parameters).map(name => `@${name}`).join(', ') };
+}
+
+/**
+ * Billed hours source backed by the [PowerBIData] Harvest views in MSSQL
+ */
+export function createMssqlBilledHoursSource(): BilledHoursSource {
+  return {
+    name: 'mssql',
+    async fetchBilledHours(range: PeriodRange, teamCodes: string[] = getKnownDatabaseTeams()): Promise<DatabaseEmployeeData[]> {
+      // An empty IN list is invalid SQL; no teams means no hours
+      if (teamCodes.length === 0) {
+        return [];
+      }
+      const { parameters: teamParameters, inList } = buildTeamParameters(teamCodes);
+
+      const query = `
+        WITH LatestEntries AS (
+            SELECT
+                e.EmployeeName,
+                e.EmployeeID_EmployeeNiv1,
+                f.Hours,
+                f.IsBillableKey,
+                f.Date,
+                ROW_NUMBER() OVER (PARTITION BY f.DW_ID ORDER BY f.DW_Batch_Created DESC) AS RowNum
+            FROM
+                [PowerBIData].[vPowerBiData_Harvest_Harvest_data_All] f
+            LEFT JOIN
+                [PowerBIData].[DimEmployee_Tabular_Flat] e ON f.EmployeeKey = e.EmployeeKey
+            WHERE
+                f.Hours > 0
+                AND e.EmployeeID_EmployeeNiv1 IN (${inList})
+        )
+        SELECT
+            EmployeeName,
+            EmployeeID_EmployeeNiv1,
+            SUM(CASE WHEN IsBillableKey = 1 THEN Hours ELSE 0 END) AS BillableHours,
+            SUM(CASE WHEN IsBillableKey = 1 THEN 0 ELSE Hours END) AS NonBillableHours,
+            SUM(Hours) AS TotalHours
+        FROM
+            LatestEntries
+        WHERE
+            RowNum = 1
+            AND Date >= @startDate
+            AND Date < @endDate
+        GROUP BY
+            EmployeeName,
+            EmployeeID_EmployeeNiv1;
+      `;
+
+      const result = await executeQuery<DatabaseEmployeeData>(query, {
+        ...teamParameters,
+        startDate: { type: sql.VarChar(8), value: range.startDate },
+        endDate: { type: sql.VarChar(8), value: range.endDate }
+      });
+      return result.recordset;
+    },
+
+    async fetchProjectHours(range: PeriodRange, teamCodes: string[] = getKnownDatabaseTeams()): Promise<ProjectHoursData[]> {
+      // An empty IN list is invalid SQL; no teams means no hours
+      if (teamCodes.length === 0) {
+        return [];
+      }
+      const { parameters: teamParameters, inList } = buildTeamParameters(teamCodes);
+
+      const query = `
+        WITH LatestEntries AS (
+            SELECT
+                e.EmployeeName,
+                e.EmployeeID_EmployeeNiv1,
+                f.ClientName,
+                f.ProjectName,
+                f.Hours,
+                f.IsBillableKey,
+                f.Date,
+                ROW_NUMBER() OVER (PARTITION BY f.DW_ID ORDER BY f.DW_Batch_Created DESC) AS RowNum
+            FROM
+                [PowerBIData].[vPowerBiData_Harvest_Harvest_data_All] f
+            LEFT JOIN
+                [PowerBIData].[DimEmployee_Tabular_Flat] e ON f.EmployeeKey = e.EmployeeKey
+            WHERE
+                f.Hours > 0
+                AND e.EmployeeID_EmployeeNiv1 IN (${inList})
+        )
+        SELECT
+            COALESCE(NULLIF(ClientName, ''), '${NO_CLIENT}') AS ClientName,
+            COALESCE(NULLIF(ProjectName, ''), '${NO_PROJECT}') AS ProjectName,
+            EmployeeID_EmployeeNiv1,
+            SUM(CASE WHEN IsBillableKey = 1 THEN Hours ELSE 0 END) AS BillableHours,
+            SUM(CASE WHEN IsBillableKey = 1 THEN 0 ELSE Hours END) AS NonBillableHours,
+            SUM(Hours) AS TotalHours,
+            COUNT(DISTINCT EmployeeName) AS EmployeeCount
+        FROM
+            LatestEntries
+        WHERE
+            RowNum = 1
+            AND Date >= @startDate
+            AND Date < @endDate
+        GROUP BY
+            COALESCE(NULLIF(ClientName, ''), '${NO_CLIENT}'),
+            COALESCE(NULLIF(ProjectName, ''), '${NO_PROJECT}'),
+            EmployeeID_EmployeeNiv1;
+      `;
+
+      const result = await executeQuery<ProjectHoursData>(query, {
+        ...teamParameters,
+        startDate: { type: sql.VarChar(8), value: range.startDate },
+        endDate: { type: sql.VarChar(8), value: range.endDate }
+      });
+      return result.recordset;
+    }
+  };
+}
+
+/**
+ * Billed hours source backed by a local CSV (semicolon-delimited) or JSON fixture
+ * of Harvest entries, for offline development and testing
+ * @param filePath - Path to the fixture file, relative to the working directory or absolute
+ */
+export function createFileBilledHoursSource(filePath: string): BilledHoursSource {
+  const resolvedPath = path.resolve(process.cwd(), filePath);
+
+  return {
+    name: 'file',
+    async fetchBilledHours(range: PeriodRange, teamCodes: string[] = getKnownDatabaseTeams()): Promise<DatabaseEmployeeData[]> {
+      const entries = await readHarvestFixture(resolvedPath);
+      return aggregateHarvestEntries(entries, range, teamCodes);
+    },
+    async fetchProjectHours(range: PeriodRange, teamCodes: string[] = getKnownDatabaseTeams()): Promise<ProjectHoursData[]> {
+      const entries = await readHarvestFixture(resolvedPath);
+      return aggregateProjectHours(entries, range, teamCodes);
+    }
+  };
+}
+
+/**
+ * Read Harvest entries from a CSV or JSON fixture file
+ */
+async function readHarvestFixture(filePath: string): Promise<HarvestEntry[]> {
+  if (filePath.toLowerCase().endsWith('.json')) {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Fixture file not found: ${filePath}`);
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (!Array.isArray(parsed)) {
+      throw new Error(`Fixture file must contain an array of Harvest entries: ${filePath}`);
+    }
+    return parsed.map(toHarvestEntry);
+  }
+
+  const rows: Record<string, string>[] = await readCsvFile(filePath);
+  return rows.map(toHarvestEntry);
+}
+
+/**
+ * Normalise a raw fixture row (CSV strings or JSON values) into a HarvestEntry
+ */
+function toHarvestEntry(row: Record<string, unknown>): HarvestEntry {
+  return {
+    DW_ID: String(row.DW_ID ?? ''),
+    EmployeeName: String(row.EmployeeName ?? ''),
+    EmployeeID_EmployeeNiv1: String(row.EmployeeID_EmployeeNiv1 ?? ''),
+    Hours: Number(row.Hours) || 0,
+    IsBillableKey: Number(row.IsBillableKey) || 0,
+    Date: String(row.Date ?? ''),
+    DW_Batch_Created: String(row.DW_Batch_Created ?? ''),
+    ClientName: String(row.ClientName || NO_CLIENT),
+    ProjectName: String(row.ProjectName || NO_PROJECT)
+  };
+}
+
+/**
+ * Select the Harvest entries the warehouse queries consider: entries with hours for the requested teams,
+ * the latest batch for each DW_ID, limited to the period range
+ */
+function selectLatestEntries(entries: HarvestEntry[], range: PeriodRange, teamCodes: string[]): HarvestEntry[] {
+  const latestEntries = new Map<string, HarvestEntry>();
+
+  for (const entry of entries) {
+    if (entry.Hours <= 0 || !teamCodes.includes(entry.EmployeeID_EmployeeNiv1)) {
+      continue;
+    }
+
+    const current = latestEntries.get(entry.DW_ID);
+    if (!current || entry.DW_Batch_Created > current.DW_Batch_Created) {
+      latestEntries.set(entry.DW_ID, entry);
+    }
+  }
+
+  return Array.from(latestEntries.values()).filter(entry => entry.Date >= range.startDate && entry.Date < range.endDate);
+}
+
+/**
+ * Aggregate raw Harvest entries into billable, non-billable and total hours per employee, mirroring the
+ * warehouse query: only entries with hours for the requested teams are considered,
+ * the latest batch wins for each DW_ID, and the result is limited to the period range.
+ * @param entries - Raw Harvest entries
+ * @param range - Period range to include
+ * @param teamCodes - Teams in database format to include
+ */
+export function aggregateHarvestEntries(entries: HarvestEntry[], range: PeriodRange, teamCodes: string[] = getKnownDatabaseTeams()): DatabaseEmployeeData[] {
+  const totals = new Map<string, DatabaseEmployeeData>();
+
+  for (const entry of selectLatestEntries(entries, range, teamCodes)) {
+    const key = `${entry.EmployeeName}|${entry.EmployeeID_EmployeeNiv1}`;
+    if (!totals.has(key)) {
+      totals.set(key, {
+        EmployeeName: entry.EmployeeName,
+        EmployeeID_EmployeeNiv1: entry.EmployeeID_EmployeeNiv1,
+        BillableHours: 0,
+        NonBillableHours: 0,
+        TotalHours: 0
+      });
+    }
+
+    const employeeTotals = totals.get(key)!;
+    if (entry.IsBillableKey === 1) {
+      employeeTotals.BillableHours += entry.Hours;
+    } else {
+      employeeTotals.NonBillableHours += entry.Hours;
+    }
+    employeeTotals.TotalHours += entry.Hours;
+  }
+
+  return Array.from(totals.values());
+}
+
+/**
+ * Aggregate raw Harvest entries into billable, non-billable and total hours per client, project and team,
+ * mirroring the warehouse query
+ * @param entries - Raw Harvest entries
+ * @param range - Period range to include
+ * @param teamCodes - Teams in database format to include
+ */
+export function aggregateProjectHours(entries: HarvestEntry[], range: PeriodRange, teamCodes: string[] = getKnownDatabaseTeams()): ProjectHoursData[] {
+  const totals = new Map<string, { data: ProjectHoursData; employees: Set<string> }>();
+
+  for (const entry of selectLatestEntries(entries, range, teamCodes)) {
+    const key = `${entry.ClientName}|${entry.ProjectName}|${entry.EmployeeID_EmployeeNiv1}`;
+    if (!totals.has(key)) {
+      totals.set(key, {
+        data: {
+          ClientName: entry.ClientName,
+          ProjectName: entry.ProjectName,
+          EmployeeID_EmployeeNiv1: entry.EmployeeID_EmployeeNiv1,
+          BillableHours: 0,
+          NonBillableHours: 0,
+          TotalHours: 0,
+          EmployeeCount: 0
+        },
+        employees: new Set()
+      });
+    }
+
+    const { data, employees } = totals.get(key)!;
+    if (entry.IsBillableKey === 1) {
+      data.BillableHours += entry.Hours;
+    } else {
+      data.NonBillableHours += entry.Hours;
+    }
+    data.TotalHours += entry.Hours;
+    employees.add(entry.EmployeeName);
+    data.EmployeeCount = employees.size;
+  }
+
+  return Array.from(totals.values()).map(({ data }) => data);
+}
+
+/**
+ * Get the cache lifetime for a period: BILLED_HOURS_CACHE_CLOSED_TTL_SECONDS (default 24 hours) if the period
+ * ended before the current month, otherwise BILLED_HOURS_CACHE_OPEN_TTL_SECONDS (default 5 minutes)
+ */
+function getBilledHoursTtlMs(range: PeriodRange, now: Date = new Date()): number {
+  const currentMonthStart = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}01`;
+  const isClosed = range.endDate <= currentMonthStart;
+
+  const configured = Number(process.env[isClosed ? 'BILLED_HOURS_CACHE_CLOSED_TTL_SECONDS' : 'BILLED_HOURS_CACHE_OPEN_TTL_SECONDS']);
+  const seconds = Number.isFinite(configured) && configured >= 0
+    ? configured
+    : isClosed ? DEFAULT_CLOSED_PERIOD_TTL_SECONDS : DEFAULT_OPEN_PERIOD_TTL_SECONDS;
+
+  return seconds * 1000;
+}
+
+/**
+ * Wrap a billed hours source with the shared billed hours and project hours caches, keyed by source, date range and teams
+ */
+export function createCachedBilledHoursSource(source: BilledHoursSource): BilledHoursSource {
+  return {
+    name: source.name,
+    async fetchBilledHours(range: PeriodRange, teamCodes: string[] = getKnownDatabaseTeams()): Promise<DatabaseEmployeeData[]> {
+      const key = `${source.name}|${range.startDate}-${range.endDate}|${[...teamCodes].sort().join(',')}`;
+      return billedHoursCache.getOrLoad(key, getBilledHoursTtlMs(range), () => source.fetchBilledHours(range, teamCodes));
+    },
+    async fetchProjectHours(range: PeriodRange, teamCodes: string[] = getKnownDatabaseTeams()): Promise<ProjectHoursData[]> {
+      const key = `${source.name}|${range.startDate}-${range.endDate}|${[...teamCodes].sort().join(',')}`;
+      return projectHoursCache.getOrLoad(key, getBilledHoursTtlMs(range), () => source.fetchProjectHours(range, teamCodes));
+    }
+  };
+}
+
+/**
+ * Get the billed hours source selected by the BILLED_HOURS_SOURCE environment variable
+ * ('mssql' by default, or 'file' to read BILLED_HOURS_FIXTURE_PATH).
+ * Warehouse results are cached; fixture files are read on every call so edits show up immediately.
+ */
+export function getBilledHoursSource(): BilledHoursSource {
+  const sourceName = (process.env.BILLED_HOURS_SOURCE || 'mssql').trim().toLowerCase();
+
+  switch (sourceName) {
+    case 'mssql':
+      return createCachedBilledHoursSource(createMssqlBilledHoursSource());
+    case 'file':
+      return createFileBilledHoursSource(process.env.BILLED_HOURS_FIXTURE_PATH || DEFAULT_FIXTURE_PATH);
+    default:
+      throw new Error(`Unknown BILLED_HOURS_SOURCE '${sourceName}'. Expected 'mssql' or 'file'`);
+  }
+}
@@ -0,0 +1,160 @@
+import path from 'path';
+import { readCsvFile, BudgetCsvRow, ProcessedBudgetData } from '@/lib/data/csvReader';
+import { findRegisteredTeam } from '@/lib/data/teamRegistry';
+import { budgetRowSchema, budgetMonthColumnSchema, BUDGET_REQUIRED_COLUMNS } from '@/lib/schemas/budget';
+
+/**
+ * A problem found while importing a budget file
+ * - error: the row (or file) is not imported
+ * - warning: the row is imported but should be checked
+ */
+export interface BudgetImportIssue {
+  severity: 'error' | 'warning';
+  fileName: string;
+  /** Row number in the file, counting the header as row 1; null for file-level issues */
+  row: number | null;
+  column: string | null;
+  message: string;
+}
+
+export interface BudgetImportResult {
+  fileName: string;
+  /** Rows that passed validation */
+  data: ProcessedBudgetData[];
+  errors: BudgetImportIssue[];
+  warnings: BudgetImportIssue[];
+}
+
+/**
+ * Validate raw budget rows and convert the valid ones to processed budget data.
+ * Rows with errors (invalid hours, missing fields, duplicate employee/task rows, extra cells) are left out;
+ * rows with warnings (empty hour cells, unknown teams, missing cells) are imported.
+ * @param rows - Raw rows from readCsvFile
+ * @param fileName - File name used in the issues
+ * @param year - Optional budget year; month columns outside it are reported as warnings
+ */
+export function validateBudgetRows(rows: BudgetCsvRow[], fileName: string, year?: number | null): BudgetImportResult {
+  const errors: BudgetImportIssue[] = [];
+  const warnings: BudgetImportIssue[] = [];
+  const addIssue = (severity: BudgetImportIssue['severity'], row: number | null, column: string | null, message: string) => {
+    (severity === 'error' ? errors : warnings).push({ severity, fileName, row, column, message });
+  };
+
+  const headers = rows.length > 0 ? Object.keys(rows[0]).filter(header => !/^_\d+$/.test(header)) : [];
+  const monthColumns = headers.filter(header => budgetMonthColumnSchema.safeParse(header).success);
+
+  const missingColumns = BUDGET_REQUIRED_COLUMNS.filter(column => !headers.includes(column));
+  if (rows.length === 0) {
+    addIssue('error', null, null, 'File contains no budget rows');
+  }
+  for (const column of missingColumns) {
+    addIssue('error', 1, column, `Required column ${column} is missing`);
+  }
+  if (rows.length > 0 && monthColumns.length === 0) {
+    addIssue('error', 1, null, 'File has no month columns (expected YYYYMM, e.g., 202501)');
+  }
+  if (errors.length > 0) {
+    return { fileName, data: [], errors, warnings };
+  }
+
+  for (const header of headers) {
+    if (!(BUDGET_REQUIRED_COLUMNS as readonly string[]).includes(header) && !monthColumns.includes(header)) {
+      addIssue('warning', 1, header, `Column ${header} is not a budget column and is ignored`);
+    }
+  }
+  if (year) {
+    for (const column of monthColumns.filter(column => !column.startsWith(String(year)))) {
+      addIssue('warning', 1, column, `Month ${column} is outside the file's budget year ${year}`);
+    }
+  }
+
+  const data: ProcessedBudgetData[] = [];
+  const seenRows = new Map<string, number>();
+  const unknownTeams = new Set<string>();
+
+  rows.forEach((raw, index) => {
+    const rowNumber = index + 2;
+
+    // csv-parser stores cells beyond the header as _<index>, usually from an unquoted ';' in a description
+    if (Object.keys(raw).some(key => /^_\d+$/.test(key))) {
+      addIssue('error', rowNumber, null, 'Row has more cells than the header - quote values that contain ";"');
+      return;
+    }
+    if (headers.some(header => raw[header] === undefined)) {
+      addIssue('warning', rowNumber, null, 'Row has fewer cells than the header - missing cells are treated as empty');
+    }
+
+    const monthlyHours: Record<string, string> = {};
+    for (const column of monthColumns) {
+      monthlyHours[column] = raw[column] ?? '';
+      if (monthlyHours[column] === '') {
+        addIssue('warning', rowNumber, column, 'Empty hours are treated as 0');
+      }
+    }
+
+    const parsed = budgetRowSchema.safeParse({
+      Team: raw.Team ?? '',
+      Description: raw.Description ?? '',
+      Employee: raw.Employee ?? '',
+      TaskID: raw.TaskID ?? '',
+      monthlyHours
+    });
+
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        // Month issues have the path ['monthlyHours', '<month>'], other fields ['<column>']
+        const column = String(issue.path[issue.path.length - 1] ?? '') || null;
+        addIssue('error', rowNumber, column, issue.message);
+      }
+      return;
+    }
+
+    const row = parsed.data;
+    const key = `${row.Team}|${row.Employee}|${row.TaskID}`;
+    const duplicateOf = seenRows.get(key);
+    if (duplicateOf !== undefined) {
+      addIssue('error', rowNumber, null, `Duplicate of row ${duplicateOf} (${row.Employee}, task ${row.TaskID} in ${row.Team})`);
+      return;
+    }
+    seenRows.set(key, rowNumber);
+
+    if (!findRegisteredTeam(row.Team) && !unknownTeams.has(row.Team)) {
+      unknownTeams.add(row.Team);
+      addIssue('warning', rowNumber, 'Team', `Team ${row.Team} is not in the team registry`);
+    }
+
+    data.push({
+      team: row.Team,
+      description: row.Description,
+      employee: row.Employee,
+      taskId: row.TaskID,
+      monthlyHours: row.monthlyHours,
+      totalHours: Object.values(row.monthlyHours).reduce((sum, hours) => sum + hours, 0)
+    });
+  });
+
+  return { fileName, data, errors, warnings };
+}
+
+/**
+ * Read and validate a budget CSV file
+ * @param filePath - Path to the budget file
+ * @param year - Optional budget year of the file, used to flag month columns from other years
+ * @throws Error if the file cannot be read
+ */
+export async function importBudgetFile(filePath: string, year?: number | null): Promise<BudgetImportResult> {
+  const rows = await readCsvFile(filePath);
+  return validateBudgetRows(rows, path.basename(filePath), year);
+}
+
+/**
+ * Format an import issue as a single line, e.g. "budget2025.csv row 4, column 202503: ..."
+ */
+export function formatBudgetImportIssue(issue: BudgetImportIssue): string {
+  const location = [
+    issue.row !== null ? `row ${issue.row}` : null,
+    issue.column ? `column ${issue.column}` : null
+  ].filter(Boolean).join(', ');
+
+  return `${issue.fileName}${location ? ` ${location}` : ''}: ${issue.message}`;
+}
@@ -0,0 +1,80 @@
+import { ProcessedBudgetData } from '@/lib/data/csvReader';
+import { findRegisteredTeam } from '@/lib/data/teamRegistry';
+import { formatPeriodCode, toPeriodCode, PeriodRange } from '@/lib/utils/periodRange';
+import { formatIsoDate, getMonthWorkingDays } from '@/lib/utils/workingDays';
+
+/**
+ * How the budget of a period was pro-rated to the as-of date
+ */
+export interface BudgetProRating {
+  /** Date billed hours are compared as of (YYYY-MM-DD) */
+  asOf: string;
+  /** Month in progress on the as-of date, or null if the period does not include it */
+  currentMonth: string | null;
+  /** Elapsed and total working days of the current month per country */
+  workingDays: { country: string; elapsed: number; total: number }[];
+  /** Months of the period after the as-of month, which count with 0 budgeted hours */
+  futureMonths: number;
+  /** Budgeted hours for the full period */
+  fullBudget: number;
+  /** Budgeted hours for the part of the period that has elapsed */
+  proRatedBudget: number;
+}
+
+/**
+ * Pro-rate period budget data to an as-of date, so partial billed hours are compared with the matching budget share.
+ * Closed months count in full, the current month counts with the share of its working days that have elapsed
+ * (using the holiday calendar of the team's country) and later months count as 0.
+ * Budgets for periods that ended before the as-of month are returned unchanged.
+ * @param budgetData - Budget data for the period, e.g. from getBudgetDataForPeriod
+ * @param range - The period the budget data covers
+ * @param asOf - Date to pro-rate to (defaults to today)
+ * @returns Budget data with totalHours pro-rated, and the pro-rating details (null if nothing was pro-rated)
+ */
+export function proRateBudgetData(
+  budgetData: ProcessedBudgetData[],
+  range: PeriodRange,
+  asOf: Date = new Date()
+): { data: ProcessedBudgetData[]; proRating: BudgetProRating | null } {
+  const asOfMonth = toPeriodCode(asOf.getFullYear(), asOf.getMonth() + 1);
+
+  if (range.monthCodes.every(monthCode => monthCode < asOfMonth)) {
+    return { data: budgetData, proRating: null };
+  }
+
+  const workingDaysByCountry = new Map<string, { elapsed: number; total: number }>();
+  const getShare = (monthCode: string, country: string): number => {
+    if (monthCode < asOfMonth) return 1;
+    if (monthCode > asOfMonth) return 0;
+
+    if (!workingDaysByCountry.has(country)) {
+      workingDaysByCountry.set(country, getMonthWorkingDays(monthCode, asOf, country));
+    }
+    const { elapsed, total } = workingDaysByCountry.get(country)!;
+    return total > 0 ? elapsed / total : 1;
+  };
+
+  let fullBudget = 0;
+  let proRatedBudget = 0;
+
+  const data = budgetData.map(item => {
+    const country = findRegisteredTeam(item.team)?.country || '';
+    const totalHours = range.monthCodes.reduce((sum, monthCode) => sum + (item.monthlyHours[monthCode] || 0) * getShare(monthCode, country), 0);
+
+    fullBudget += item.totalHours;
+    proRatedBudget += totalHours;
+    return { ...item, totalHours };
+  });
+
+  return {
+    data,
+    proRating: {
+      asOf: formatIsoDate(asOf),
+      currentMonth: range.monthCodes.includes(asOfMonth) ? formatPeriodCode(asOfMonth) : null,
+      workingDays: Array.from(workingDaysByCountry.entries()).map(([country, days]) => ({ country: country || 'Unassigned', ...days })),
+      futureMonths: range.monthCodes.filter(monthCode => monthCode > asOfMonth).length,
+      fullBudget,
+      proRatedBudget
+    }
+  };
+}
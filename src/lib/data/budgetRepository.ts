@@ -0,0 +1,269 @@
+import fs from 'fs';
+import path from 'path';
+import { ProcessedBudgetData, DataFileError } from '@/lib/data/csvReader';
+import { importBudgetFile, formatBudgetImportIssue, BudgetImportResult } from '@/lib/data/budgetImporter';
+import { createTtlCache } from '@/lib/utils/cache';
+import { resolvePeriodRange, PeriodRange } from '@/lib/utils/periodRange';
+
+const DEFAULT_BUDGET_DIRECTORY = path.join('data', 'budget');
+
+// Budget files are named budget<year>.csv, e.g. budget2025.csv
+const BUDGET_FILE_PATTERN = /^budget.*\.csv$/i;
+const BUDGET_FILE_YEAR_PATTERN = /(\d{4})/;
+
+// Parsed budget files keyed by path, invalidated when the file's modification time or size changes
+const budgetFileCache = createTtlCache<{ mtimeMs: number; size: number; result: BudgetImportResult }>('budget');
+
+/**
+ * Error thrown when the budget files have no budget hours for any month of a period
+ */
+export class NoBudgetDataError extends Error {
+  constructor(periodLabel: string) {
+    super(`No budget data found for ${periodLabel}. Budget years available: ${getAvailableBudgetYears().join(', ') || 'none'}`);
+    this.name = 'NoBudgetDataError';
+  }
+}
+
+/**
+ * A budget CSV file found in the budget directory
+ */
+export interface BudgetFile {
+  fileName: string;
+  filePath: string;
+  /** Year parsed from the file name, or null if the name has no year (the file is then always read) */
+  year: number | null;
+}
+
+/**
+ * Get the budget directory from BUDGET_DIRECTORY (defaults to data/budget)
+ */
+function getBudgetDirectory(): string {
+  return path.resolve(process.cwd(), process.env.BUDGET_DIRECTORY || DEFAULT_BUDGET_DIRECTORY);
+}
+
+/**
+ * Find all budget*.csv files in the budget directory, ordered by year
+ * @throws DataFileError if the budget directory does not exist
+ */
+export function discoverBudgetFiles(): BudgetFile[] {
+  const directory = getBudgetDirectory();
+
+  if (!fs.existsSync(directory)) {
+    throw new DataFileError(`Budget directory not found: ${directory}`);
+  }
+
+  return fs.readdirSync(directory)
+    .filter(fileName => BUDGET_FILE_PATTERN.test(fileName))
+    .map(fileName => {
+      const yearMatch = fileName.match(BUDGET_FILE_YEAR_PATTERN);
+      return {
+        fileName,
+        filePath: path.join(directory, fileName),
+        year: yearMatch ? parseInt(yearMatch[1]) : null
+      };
+    })
+    .sort((a, b) => (a.year ?? 0) - (b.year ?? 0) || a.fileName.localeCompare(b.fileName));
+}
+
+/**
+ * Get the years that have a budget file
+ */
+export function getAvailableBudgetYears(): number[] {
+  return discoverBudgetFiles()
+    .map(file => file.year)
+    .filter((year): year is number => year !== null);
+}
+
+/**
+ * Merge budget data from several files into one row per team, employee and task.
+ * Monthly hours are combined across files; when two files contain the same month for a row,
+ * the later file wins. The description is taken from the latest file.
+ * @param datasets - Processed budget data per file, ordered by year
+ */
+export function mergeBudgetData(datasets: ProcessedBudgetData[][]): ProcessedBudgetData[] {
+  const merged = new Map<string, ProcessedBudgetData>();
+
+  for (const dataset of datasets) {
+    for (const item of dataset) {
+      const key = `${item.team}|${item.employee}|${item.taskId}`;
+      const existing = merged.get(key);
+
+      if (!existing) {
+        merged.set(key, { ...item, monthlyHours: { ...item.monthlyHours } });
+        continue;
+      }
+
+      for (const [monthCode, hours] of Object.entries(item.monthlyHours)) {
+        if (existing.monthlyHours[monthCode] !== undefined) {
+          console.warn(`Budget month ${monthCode} for ${item.employee} (${item.team}, task ${item.taskId}) appears in several files - using the latest`);
+        }
+        existing.monthlyHours[monthCode] = hours;
+      }
+
+      existing.description = item.description;
+      existing.totalHours = Object.values(existing.monthlyHours).reduce((sum, hours) => sum + hours, 0);
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Import a budget file, reusing the parsed result until the file's modification time or size changes
+ */
+async function importBudgetFileCached(file: BudgetFile): Promise<BudgetImportResult> {
+  const { mtimeMs, size } = await fs.promises.stat(file.filePath);
+  const cached = budgetFileCache.get(file.filePath);
+
+  if (cached && cached.mtimeMs === mtimeMs && cached.size === size) {
+    return cached.result;
+  }
+
+  const result = await importBudgetFile(file.filePath, file.year);
+  budgetFileCache.set(file.filePath, { mtimeMs, size, result }, Infinity);
+  return result;
+}
+
+/**
+ * Read the budget files and merge them into one dataset. Parsed files are cached until they change on disk.
+ * With a period, only the files for the years in the period are read, plus files without a year in the name.
+ * @param range - Optional period to load budget data for
+ * @returns Merged budget data with totalHours summed over all loaded months
+ */
+export async function loadBudgetData(range?: PeriodRange): Promise<ProcessedBudgetData[]> {
+  const years = range ? new Set(range.monthCodes.map(code => parseInt(code.substring(0, 4)))) : null;
+  const files = discoverBudgetFiles().filter(file => !years || file.year === null || years.has(file.year));
+
+  if (range && files.length === 0) {
+    console.warn(`No budget file covers ${range.label}`);
+  }
+
+  const datasets = await Promise.all(files.map(async file => {
+    let result;
+    try {
+      result = await importBudgetFileCached(file);
+    } catch (error) {
+      throw new DataFileError(`Failed to read ${file.fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+    }
+
+    // Invalid rows are left out rather than counted as 0 hours; run npm run validate-budget for details
+    if (result.errors.length > 0) {
+      console.error(`Budget file ${file.fileName} has ${result.errors.length} error(s), affected rows are skipped:`);
+      result.errors.forEach(issue => console.error(`  ${formatBudgetImportIssue(issue)}`));
+    }
+    if (result.warnings.length > 0) {
+      console.warn(`Budget file ${file.fileName} has ${result.warnings.length} warning(s)`);
+    }
+
+    return result.data;
+  }));
+
+  return mergeBudgetData(datasets);
+}
+
+/**
+ * Check that the budget files have budget hours for at least one month of a period, for any team.
+ * Analyses call this for the requested period, so a period without a budget is reported as such
+ * instead of as 0 budgeted hours.
+ * @throws NoBudgetDataError if no budget row covers the period
+ */
+export async function ensureBudgetForPeriod(range: PeriodRange): Promise<void> {
+  const budgetData = await loadBudgetData(range);
+  if (!budgetData.some(item => range.monthCodes.some(code => item.monthlyHours[code] !== undefined))) {
+    throw new NoBudgetDataError(range.label);
+  }
+}
+
+/**
+ * Get budget data for a specific team across all budget years
+ * @param teamName - Name of the team (e.g., 'CST III')
+ * @returns Promise that resolves to team budget data
+ */
+export async function getTeamBudgetData(teamName: string): Promise<ProcessedBudgetData[]> {
+  try {
+    const processedData = await loadBudgetData();
+
+    return processedData.filter(item => item.team === teamName);
+  } catch (error) {
+    throw new Error(`Failed to get team budget data: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+  }
+}
+
+/**
+ * Get budget data for a specific employee across all budget years
+ * @param employeeInitials - Employee initials (e.g., 'JKH')
+ * @returns Promise that resolves to employee budget data
+ */
+export async function getEmployeeBudgetData(employeeInitials: string): Promise<ProcessedBudgetData[]> {
+  try {
+    const processedData = await loadBudgetData();
+
+    return processedData.filter(item => item.employee === employeeInitials);
+  } catch (error) {
+    throw new Error(`Failed to get employee budget data: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+  }
+}
+
+/**
+ * Get budget data for a specific period and optionally filter by team
+ * @param period - Period like "May 2025", "202505", "Q1 2025" or "November 2025 – February 2026", or an already parsed range
+ * @param teamFilter - Optional team filter in CSV format (e.g., 'CST III' or ['CST III', 'CST IV'])
+ * @returns Promise that resolves to budget data with totalHours summed over the months in the period
+ * @throws PeriodParseError if the period cannot be parsed
+ */
+export async function getBudgetDataForPeriod(period: string | PeriodRange, teamFilter?: string | string[]): Promise<ProcessedBudgetData[]> {
+  // Parse the period before reading the files so invalid periods surface as validation errors
+  const range = resolvePeriodRange(period);
+  const teamNames = typeof teamFilter === 'string' ? [teamFilter] : teamFilter;
+
+  try {
+    const processedData = await loadBudgetData(range);
+
+    return processedData
+      .filter(item => {
+        // Filter by team if specified
+        if (teamNames && !teamNames.includes(item.team)) {
+          return false;
+        }
+
+        // Check if the employee has budget data for any month in the period
+        return range.monthCodes.some(code => item.monthlyHours[code] !== undefined);
+      })
+      .map(item => ({
+        ...item,
+        // Override totalHours to be the hours for the months in the period
+        totalHours: range.monthCodes.reduce((sum, code) => sum + (item.monthlyHours[code] || 0), 0)
+      }));
+  } catch (error) {
+    throw new Error(`Failed to get budget data for period: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+  }
+}
+
+/**
+ * Get total budget hours by team
+ * @param year - Optional year to total; without it all budget years are summed
+ * @returns Promise that resolves to team totals
+ */
+export async function getTeamTotals(year?: number): Promise<Record<string, number>> {
+  try {
+    const processedData = await loadBudgetData();
+    const yearPrefix = year !== undefined ? String(year) : null;
+
+    const teamTotals: Record<string, number> = {};
+
+    processedData.forEach(item => {
+      if (!teamTotals[item.team]) {
+        teamTotals[item.team] = 0;
+      }
+      teamTotals[item.team] += yearPrefix
+        ? Object.entries(item.monthlyHours)
+          .filter(([monthCode]) => monthCode.startsWith(yearPrefix))
+          .reduce((sum, [, hours]) => sum + hours, 0)
+        : item.totalHours;
+    });
+
+    return teamTotals;
+  } catch (error) {
+    throw new Error(`Failed to calculate team totals: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+  }
+}
@@ -0,0 +1,267 @@
+import path from 'path';
+import fs from 'fs';
+import { randomUUID } from 'crypto';
+import { conversationSchema, conversationIdSchema, Conversation, StoredMessage } from '@/lib/schemas/conversation';
+
+const DEFAULT_CONVERSATIONS_PATH = path.join('data', 'conversations');
+
+// Titles derived from the first question are cut to this length
+const MAX_DERIVED_TITLE_LENGTH = 60;
+
+/**
+ * Conversation without its messages, as shown in the conversation list
+ */
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+/**
+ * Backend that stores chat conversations. Every method is scoped to the owner, so users
+ * only see their own conversations; a conversation of another user is reported as not found.
+ */
+export interface ConversationStore {
+  /** Short identifier used in logs (e.g. 'file') */
+  readonly name: string;
+  /** List the owner's conversations, most recently updated first */
+  listConversations(owner: string): Promise<ConversationSummary[]>;
+  /** Get a conversation with its messages, or null if it does not exist */
+  getConversation(owner: string, id: string): Promise<Conversation | null>;
+  /**
+   * Create an empty conversation
+   * @param id - Conversation ID chosen by the client (defaults to a new UUID)
+   * @throws Error if a conversation with the ID already exists
+   */
+  createConversation(owner: string, options?: { id?: string; title?: string }): Promise<Conversation>;
+  /**
+   * Append messages to a conversation, creating it if it does not exist yet.
+   * A new conversation is titled after its first user message. If the first message is already stored,
+   * it replaces the stored message and the messages after it.
+   * @returns The updated conversation, or null if the ID belongs to another user
+   */
+  appendMessages(owner: string, id: string, messages: StoredMessage[]): Promise<Conversation | null>;
+  /** Rename a conversation; returns null if it does not exist */
+  renameConversation(owner: string, id: string, title: string): Promise<Conversation | null>;
+  /** Delete a conversation; returns false if it does not exist */
+  deleteConversation(owner: string, id: string): Promise<boolean>;
+}
+
+/**
+ * Derive a conversation title from the first user message, cut to 60 characters
+ */
+export function deriveConversationTitle(messages: StoredMessage[]): string {
+  const question = messages.find(message => message.role === 'user')?.content.replace(/\s+/g, ' ').trim();
+  if (!question) {
+    return 'New conversation';
+  }
+
+  return question.length > MAX_DERIVED_TITLE_LENGTH
+    ? `${question.substring(0, MAX_DERIVED_TITLE_LENGTH).trimEnd()}…`
+    : question;
+}
+
+function toSummary(conversation: Conversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: conversation.messages.length
+  };
+}
+
+/**
+ * Conversation store that keeps one JSON file per conversation in a directory.
+ * Writes go through a temporary file and are serialized per conversation, so concurrent
+ * requests in one server process cannot interleave. Not suitable for several server instances.
+ * @param directory - Directory for the conversation files; created on first write
+ */
+export function createFileConversationStore(directory: string): ConversationStore {
+  const resolvedDirectory = path.resolve(process.cwd(), directory);
+  // Pending write per conversation ID, used to run updates of one conversation one after another
+  const pendingWrites = new Map<string, Promise<unknown>>();
+
+  const getFilePath = (id: string): string => {
+    if (!conversationIdSchema.safeParse(id).success) {
+      throw new Error(`Invalid conversation ID '${id}'`);
+    }
+    return path.join(resolvedDirectory, `${id}.json`);
+  };
+
+  const readConversation = async (id: string): Promise<Conversation | null> => {
+    const filePath = getFilePath(id);
+    let content: string;
+    try {
+      content = await fs.promises.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const parsed = conversationSchema.safeParse(JSON.parse(content));
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+      throw new Error(`Invalid conversation file ${filePath}: ${issues}`);
+    }
+    return parsed.data;
+  };
+
+  const writeConversation = async (conversation: Conversation): Promise<void> => {
+    const filePath = getFilePath(conversation.id);
+    const temporaryPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.mkdir(resolvedDirectory, { recursive: true });
+    await fs.promises.writeFile(temporaryPath, JSON.stringify(conversation, null, 2), 'utf-8');
+    await fs.promises.rename(temporaryPath, filePath);
+  };
+
+  // Run an update after the previous update of the same conversation has finished
+  const serialize = <T>(id: string, update: () => Promise<T>): Promise<T> => {
+    const previous = pendingWrites.get(id) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(update);
+    pendingWrites.set(id, next);
+    next.finally(() => {
+      if (pendingWrites.get(id) === next) {
+        pendingWrites.delete(id);
+      }
+    }).catch(() => undefined);
+    return next;
+  };
+
+  const getOwnedConversation = async (owner: string, id: string): Promise<Conversation | null> => {
+    const conversation = await readConversation(id);
+    return conversation && conversation.owner === owner ? conversation : null;
+  };
+
+  return {
+    name: 'file',
+
+    async listConversations(owner: string): Promise<ConversationSummary[]> {
+      if (!fs.existsSync(resolvedDirectory)) {
+        return [];
+      }
+
+      const files = (await fs.promises.readdir(resolvedDirectory)).filter(file => file.endsWith('.json'));
+      const summaries: ConversationSummary[] = [];
+
+      for (const file of files) {
+        try {
+          const conversation = await readConversation(path.basename(file, '.json'));
+          if (conversation && conversation.owner === owner) {
+            summaries.push(toSummary(conversation));
+          }
+        } catch (error) {
+          console.warn(`Skipping conversation file ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+
+    getConversation: getOwnedConversation,
+
+    createConversation(owner: string, options: { id?: string; title?: string } = {}): Promise<Conversation> {
+      const id = options.id ?? randomUUID();
+      return serialize(id, async () => {
+        if (await readConversation(id)) {
+          throw new Error(`Conversation '${id}' already exists`);
+        }
+
+        const now = new Date().toISOString();
+        const conversation: Conversation = {
+          id,
+          owner,
+          title: options.title ?? 'New conversation',
+          createdAt: now,
+          updatedAt: now,
+          messages: []
+        };
+        await writeConversation(conversation);
+        return conversation;
+      });
+    },
+
+    appendMessages(owner: string, id: string, messages: StoredMessage[]): Promise<Conversation | null> {
+      return serialize(id, async () => {
+        const existing = await readConversation(id);
+        if (existing && existing.owner !== owner) {
+          return null;
+        }
+
+        const now = new Date().toISOString();
+        const conversation: Conversation = existing ?? {
+          id,
+          owner,
+          title: deriveConversationTitle(messages),
+          createdAt: now,
+          updatedAt: now,
+          messages: []
+        };
+
+        // A message that is already stored is resent when the client regenerates an answer,
+        // so it replaces the stored message and everything after it
+        const resentIndex = messages.length > 0 ? conversation.messages.findIndex(message => message.id === messages[0].id) : -1;
+        if (resentIndex >= 0) {
+          conversation.messages = conversation.messages.slice(0, resentIndex);
+        }
+        conversation.messages.push(...messages);
+        conversation.updatedAt = now;
+
+        await writeConversation(conversation);
+        return conversation;
+      });
+    },
+
+    renameConversation(owner: string, id: string, title: string): Promise<Conversation | null> {
+      return serialize(id, async () => {
+        const conversation = await getOwnedConversation(owner, id);
+        if (!conversation) {
+          return null;
+        }
+
+        conversation.title = title;
+        conversation.updatedAt = new Date().toISOString();
+        await writeConversation(conversation);
+        return conversation;
+      });
+    },
+
+    deleteConversation(owner: string, id: string): Promise<boolean> {
+      return serialize(id, async () => {
+        if (!(await getOwnedConversation(owner, id))) {
+          return false;
+        }
+
+        await fs.promises.unlink(getFilePath(id));
+        return true;
+      });
+    }
+  };
+}
+
+let conversationStore: ConversationStore | null = null;
+
+/**
+ * Get the conversation store selected by the CONVERSATION_STORE environment variable.
+ * Only 'file' (default) is supported; it stores conversations in CONVERSATIONS_PATH (defaults to data/conversations).
+ * The store is created once per process.
+ */
+export function getConversationStore(): ConversationStore {
+  if (conversationStore) {
+    return conversationStore;
+  }
+
+  const storeName = (process.env.CONVERSATION_STORE || 'file').trim().toLowerCase();
+
+  switch (storeName) {
+    case 'file':
+      conversationStore = createFileConversationStore(process.env.CONVERSATIONS_PATH || DEFAULT_CONVERSATIONS_PATH);
+      return conversationStore;
+    default:
+      throw new Error(`Unknown CONVERSATION_STORE '${storeName}'. Expected 'file'`);
+  }
+}
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import path from 'path';
+import { employeeIdentityMappingSchema, EmployeeIdentity, EmployeeIdentityMapping } from '@/lib/schemas/employeeIdentity';
+import { extractInitials } from '@/lib/utils/employeeMapping';
+import { PeriodRange } from '@/lib/utils/periodRange';
+
+const DEFAULT_MAPPING_PATH = path.join('data', 'config', 'employee-identities.json');
+
+let cachedMapping: EmployeeIdentityMapping | null = null;
+
+/**
+ * Outcome of resolving a database employee to a budget employee
+ * - mapped: exactly one identity mapping entry matched; budgetTeam is set if the entry names the team the employee is budgeted in
+ * - fallback: no mapping entry matched, initials were parsed from the database name
+ * - ambiguous: several mapping entries matched, so the employee cannot be matched safely
+ * - unresolved: no mapping entry matched and the database name could not be parsed
+ */
+export type IdentityResolution =
+  | { status: 'mapped'; employeeId: string; budgetInitials: string; budgetTeam?: string }
+  | { status: 'fallback'; budgetInitials: string }
+  | { status: 'ambiguous'; candidates: string[] }
+  | { status: 'unresolved'; reason: string };
+
+/**
+ * Load and validate the employee identity mapping from EMPLOYEE_IDENTITY_PATH
+ * (defaults to data/config/employee-identities.json). A missing file means no mappings.
+ * The mapping is read once per process.
+ * @throws Error if the file does not match the mapping schema
+ */
+export function getEmployeeIdentityMapping(): EmployeeIdentityMapping {
+  if (cachedMapping) {
+    return cachedMapping;
+  }
+
+  const mappingPath = path.resolve(process.cwd(), process.env.EMPLOYEE_IDENTITY_PATH || DEFAULT_MAPPING_PATH);
+
+  if (!fs.existsSync(mappingPath)) {
+    console.warn(`Employee identity mapping not found: ${mappingPath} - falling back to initials parsing`);
+    cachedMapping = { employees: [] };
+    return cachedMapping;
+  }
+
+  const parsed = employeeIdentityMappingSchema.safeParse(JSON.parse(fs.readFileSync(mappingPath, 'utf-8')));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid employee identity mapping ${mappingPath}: ${issues}`);
+  }
+
+  cachedMapping = parsed.data;
+  return cachedMapping;
+}
+
+function normalizeAlias(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toUpperCase();
+}
+
+/**
+ * Check whether a mapping entry is active at any point during the period
+ */
+function isActiveDuring(identity: EmployeeIdentity, range?: PeriodRange): boolean {
+  if (!range) {
+    return true;
+  }
+
+  // Compare as YYYYMMDD strings; the range end date is exclusive
+  const activeFrom = identity.activeFrom?.replace(/-/g, '');
+  const activeTo = identity.activeTo?.replace(/-/g, '');
+
+  return (!activeFrom || activeFrom < range.endDate) && (!activeTo || activeTo >= range.startDate);
+}
+
+/**
+ * Resolve a database employee to the initials used in the budget CSV.
+ * The identity mapping is consulted first, matching the full database name or its initials
+ * against each entry's aliases and budget initials, limited to entries for the employee's team
+ * that are active during the period. Without a matching entry the initials are parsed from the name.
+ * @param databaseName - Employee name in database format (e.g., 'THN - Thomas Nissen')
+ * @param databaseTeamName - Team in database format (e.g., 'CST3')
+ * @param range - Optional period; mapping entries outside it are ignored
+ */
+export function resolveEmployeeIdentity(databaseName: string, databaseTeamName: string, range?: PeriodRange): IdentityResolution {
+  let parsedInitials: string | null = null;
+  try {
+    parsedInitials = extractInitials(databaseName);
+  } catch {
+    // Names without initials can still be resolved through a full-name alias
+  }
+
+  const keys = new Set([normalizeAlias(databaseName)]);
+  if (parsedInitials) {
+    keys.add(parsedInitials);
+  }
+
+  const candidates = getEmployeeIdentityMapping().employees.filter(identity =>
+    (!identity.team || identity.team === databaseTeamName) &&
+    isActiveDuring(identity, range) &&
+    [...identity.aliases, identity.budgetInitials].some(alias => keys.has(normalizeAlias(alias)))
+  );
+
+  // Prefer entries that match the full name over entries that only share the initials
+  const fullNameCandidates = candidates.filter(identity =>
+    identity.aliases.some(alias => normalizeAlias(alias) === normalizeAlias(databaseName))
+  );
+  const matches = fullNameCandidates.length > 0 ? fullNameCandidates : candidates;
+
+  if (matches.length === 1) {
+    const { employeeId, budgetInitials, budgetTeam } = matches[0];
+    return { status: 'mapped', employeeId, budgetInitials: budgetInitials.toUpperCase(), ...(budgetTeam ? { budgetTeam } : {}) };
+  }
+
+  if (matches.length > 1) {
+    return { status: 'ambiguous', candidates: matches.map(identity => identity.employeeId) };
+  }
+
+  if (parsedInitials) {
+    return { status: 'fallback', budgetInitials: parsedInitials };
+  }
+
+  return { status: 'unresolved', reason: `No identity mapping and no initials in "${databaseName}"` };
+}
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+import { holidayCalendarSchema, HolidayCalendar } from '@/lib/schemas/holidayCalendar';
+
+const DEFAULT_CALENDAR_PATH = path.join('data', 'config', 'holidays.json');
+
+let cachedCalendar: HolidayCalendar | null = null;
+const warnedMissingYears = new Set<string>();
+
+/**
+ * Load and validate the holiday calendar from HOLIDAY_CALENDAR_PATH (defaults to data/config/holidays.json).
+ * A missing file means no holidays. The calendar is read once per process.
+ * @throws Error if the file does not match the calendar schema
+ */
+export function getHolidayCalendar(): HolidayCalendar {
+  if (cachedCalendar) {
+    return cachedCalendar;
+  }
+
+  const calendarPath = path.resolve(process.cwd(), process.env.HOLIDAY_CALENDAR_PATH || DEFAULT_CALENDAR_PATH);
+
+  if (!fs.existsSync(calendarPath)) {
+    console.warn(`Holiday calendar not found: ${calendarPath} - counting weekdays only`);
+    cachedCalendar = { calendars: {} };
+    return cachedCalendar;
+  }
+
+  const parsed = holidayCalendarSchema.safeParse(JSON.parse(fs.readFileSync(calendarPath, 'utf-8')));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid holiday calendar ${calendarPath}: ${issues}`);
+  }
+
+  cachedCalendar = parsed.data;
+  return cachedCalendar;
+}
+
+/**
+ * Get the holiday dates (YYYY-MM-DD) for a country and year.
+ * Warns once if the calendar does not cover the year, in which case only weekends are excluded.
+ * @param country - ISO 3166-1 alpha-2 country code from the team registry (e.g., 'DK')
+ */
+export function getHolidayDates(country: string, year: number): Set<string> {
+  // Teams without a registered country only exclude weekends
+  if (!country) {
+    return new Set();
+  }
+
+  const calendar = getHolidayCalendar().calendars[country.toUpperCase()];
+
+  if (!calendar || !calendar.years.includes(year)) {
+    const key = `${country}-${year}`;
+    if (!warnedMissingYears.has(key)) {
+      warnedMissingYears.add(key);
+      console.warn(`Holiday calendar has no ${country} holidays for ${year} - counting weekdays only`);
+    }
+    return new Set();
+  }
+
+  return new Set(calendar.holidays.filter(holiday => holiday.date.startsWith(`${year}-`)).map(holiday => holiday.date));
+}
@@ -0,0 +1,118 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { rateCardSchema, exchangeRatesSchema, RateCard, ExchangeRates } from '@/lib/schemas/rateCard';
+import { findRegisteredTeam } from '@/lib/data/teamRegistry';
+
+const DEFAULT_RATE_CARD_PATH = path.join('data', 'config', 'rate-card.json');
+const DEFAULT_EXCHANGE_RATES_PATH = path.join('data', 'config', 'exchange-rates.json');
+
+let cachedRateCard: RateCard | null | undefined;
+let cachedExchangeRates: ExchangeRates | null | undefined;
+
+/**
+ * Hourly rate of an employee in the currency of their team's entity
+ */
+export interface HourlyRate {
+  hourlyRate: number;
+  currency: string;
+  role: string | null;
+  /** 'employee' for an individual rate, 'role' for a role rate from the rate card */
+  source: 'employee' | 'role';
+}
+
+/**
+ * Read and validate a JSON config file, or return null with a warning if it does not exist
+ */
+function readConfigFile<S extends z.ZodTypeAny>(filePath: string, description: string, schema: S): z.infer<S> | null {
+  if (!fs.existsSync(filePath)) {
+    console.warn(`${description} not found: ${filePath} - revenue figures are not available`);
+    return null;
+  }
+
+  const parsed = schema.safeParse(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid ${description.toLowerCase()} ${filePath}: ${issues}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Load and validate the rate card from RATE_CARD_PATH (defaults to data/config/rate-card.json).
+ * A missing file means no rates. The rate card is read once per process.
+ * @throws Error if the file does not match the rate card schema
+ */
+export function getRateCard(): RateCard | null {
+  if (cachedRateCard === undefined) {
+    const rateCardPath = path.resolve(process.cwd(), process.env.RATE_CARD_PATH || DEFAULT_RATE_CARD_PATH);
+    cachedRateCard = readConfigFile(rateCardPath, 'Rate card', rateCardSchema);
+  }
+  return cachedRateCard;
+}
+
+/**
+ * Load and validate the exchange rates from EXCHANGE_RATES_PATH (defaults to data/config/exchange-rates.json).
+ * A missing file means no conversion. The rates are read once per process.
+ * @throws Error if the file does not match the exchange rates schema
+ */
+export function getExchangeRates(): ExchangeRates | null {
+  if (cachedExchangeRates === undefined) {
+    const exchangeRatesPath = path.resolve(process.cwd(), process.env.EXCHANGE_RATES_PATH || DEFAULT_EXCHANGE_RATES_PATH);
+    cachedExchangeRates = readConfigFile(exchangeRatesPath, 'Exchange rates', exchangeRatesSchema);
+  }
+  return cachedExchangeRates;
+}
+
+/**
+ * Resolve the hourly rate of a budget employee: an individual rate from the rate card first,
+ * then the rate of the employee's role, then the rate of the default role, in the team's currency
+ * @param initials - Initials as in the budget CSV (e.g., 'THN')
+ * @param team - Team display name (e.g., 'CST III')
+ * @returns The hourly rate, or null if the team has no currency or the rate card has no rate for it
+ */
+export function resolveHourlyRate(initials: string, team: string): HourlyRate | null {
+  const rateCard = getRateCard();
+  const currency = findRegisteredTeam(team)?.currency;
+  if (!rateCard || !currency) {
+    return null;
+  }
+
+  // Prefer an entry for the employee's own team over one that applies to all teams
+  const normalizedInitials = initials.trim().toUpperCase();
+  const entries = rateCard.employees.filter(entry => entry.initials.trim().toUpperCase() === normalizedInitials);
+  const entry = entries.find(candidate => candidate.team?.toUpperCase() === team.toUpperCase())
+    ?? entries.find(candidate => !candidate.team);
+
+  if (entry?.hourlyRate !== undefined) {
+    return { hourlyRate: entry.hourlyRate, currency, role: entry.role ?? null, source: 'employee' };
+  }
+
+  const role = entry?.role ?? rateCard.defaultRole;
+  const hourlyRate = rateCard.roles[role]?.[currency];
+  if (hourlyRate === undefined) {
+    return null;
+  }
+
+  return { hourlyRate, currency, role, source: 'role' };
+}
+
+/**
+ * Convert an amount between currencies using the exchange rates file
+ * @returns The converted amount, or null if a rate is missing for either currency
+ */
+export function convertCurrency(amount: number, fromCurrency: string, toCurrency: string): number | null {
+  if (fromCurrency === toCurrency) {
+    return amount;
+  }
+
+  const rates = getExchangeRates()?.rates;
+  const fromRate = rates?.[fromCurrency];
+  const toRate = rates?.[toCurrency];
+  if (fromRate === undefined || toRate === undefined) {
+    return null;
+  }
+
+  return (amount * fromRate) / toRate;
+}
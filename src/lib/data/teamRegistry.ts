@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import { teamRegistrySchema, TeamRegistry, TeamRegistryEntry } from '@/lib/schemas/teamRegistry';
+
+const DEFAULT_REGISTRY_PATH = path.join('data', 'config', 'teams.json');
+
+let cachedRegistry: TeamRegistry | null = null;
+
+/**
+ * A legal entity with the teams that belong to it
+ */
+export interface LegalEntity {
+  name: string;
+  country: string;
+  currency: string;
+  databaseCodes: string[];
+  aliases: string[];
+}
+
+/**
+ * Load and validate the team registry from TEAM_REGISTRY_PATH (defaults to data/config/teams.json).
+ * The registry is read once per process.
+ * @throws Error if the file is missing or does not match the registry schema
+ */
+export function getTeamRegistry(): TeamRegistry {
+  if (cachedRegistry) {
+    return cachedRegistry;
+  }
+
+  const registryPath = path.resolve(process.cwd(), process.env.TEAM_REGISTRY_PATH || DEFAULT_REGISTRY_PATH);
+
+  if (!fs.existsSync(registryPath)) {
+    throw new Error(`Team registry not found: ${registryPath}`);
+  }
+
+  const parsed = teamRegistrySchema.safeParse(JSON.parse(fs.readFileSync(registryPath, 'utf-8')));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid team registry ${registryPath}: ${issues}`);
+  }
+
+  cachedRegistry = parsed.data;
+  return cachedRegistry;
+}
+
+/**
+ * Get all registered teams
+ */
+export function getRegisteredTeams(): TeamRegistryEntry[] {
+  return getTeamRegistry().teams;
+}
+
+/**
+ * Find a registered team by database code ('CST3') or display name ('CST III'), case-insensitive
+ */
+export function findRegisteredTeam(teamName: string): TeamRegistryEntry | undefined {
+  const normalized = teamName.trim().toUpperCase();
+  return getRegisteredTeams().find(team =>
+    team.databaseCode.toUpperCase() === normalized || team.displayName.toUpperCase() === normalized
+  );
+}
+
+/**
+ * Get all legal entities with their teams, in registry order
+ */
+export function getLegalEntities(): LegalEntity[] {
+  const registry = getTeamRegistry();
+  const entities = new Map<string, LegalEntity>();
+
+  for (const team of registry.teams) {
+    if (!entities.has(team.entity)) {
+      entities.set(team.entity, {
+        name: team.entity,
+        country: team.country,
+        currency: team.currency,
+        databaseCodes: [],
+        aliases: registry.entityAliases[team.entity] || []
+      });
+    }
+    entities.get(team.entity)!.databaseCodes.push(team.databaseCode);
+  }
+
+  return Array.from(entities.values());
+}
+
+/**
+ * Find a legal entity by name or alias ('Solitwork Denmark', 'Denmark', 'DK'), case-insensitive
+ */
+export function findLegalEntity(name: string): LegalEntity | undefined {
+  const normalized = name.trim().toLowerCase().replace(/\s+/g, ' ');
+  return getLegalEntities().find(entity =>
+    entity.name.toLowerCase() === normalized || entity.aliases.some(alias => alias.toLowerCase() === normalized)
+  );
+}
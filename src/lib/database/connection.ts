@@ -4,6 +4,19 @@ import dotenv from 'dotenv';
 // Load environment variables
 dotenv.config();
 
+// Defaults for pool size, timeouts and retries (overridable via environment variables)
+const DEFAULT_POOL_MAX = 10;
+const DEFAULT_CONNECTION_TIMEOUT_MS = 15000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+const DEFAULT_QUERY_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 250;
+
+// Connection-level error codes from mssql/tedious that are worth retrying
+const TRANSIENT_ERROR_CODES = new Set(['ETIMEOUT', 'ESOCKET', 'ECONNRESET', 'ECONNCLOSED', 'ENOTOPEN', 'ECONNREFUSED']);
+
+// SQL Server error numbers for deadlocks and temporary Azure SQL unavailability
+const TRANSIENT_ERROR_NUMBERS = new Set([1205, 4060, 10928, 10929, 40197, 40501, 40613, 49918, 49919, 49920]);
+
 // Database configuration interface
 interface DatabaseConfig {
   server: string;
@@ -11,12 +24,59 @@ interface DatabaseConfig {
   user: string;
   password: string;
   driver: string;
+  connectionTimeout: number;
+  requestTimeout: number;
+  pool: {
+    max: number;
+    min: number;
+    idleTimeoutMillis: number;
+  };
   options: {
     encrypt: boolean;
     trustServerCertificate: boolean;
   };
 }
 
+/**
+ * A query parameter with an explicit SQL type, e.g. { type: sql.VarChar(8), value: '20250501' }
+ */
+export interface QueryParameter {
+  type: sql.ISqlType | (() => sql.ISqlType);
+  value: string | number | boolean | Date | null;
+}
+
+export interface QueryOptions {
+  /** Cancel the query after this many milliseconds (defaults to DATABASE_REQUEST_TIMEOUT_MS) */
+  timeoutMs?: number;
+  /** Number of retries for transient errors (defaults to DATABASE_QUERY_RETRIES) */
+  retries?: number;
+}
+
+export interface DatabaseHealth {
+  healthy: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Error thrown when the database cannot be reached: missing configuration, failed connection,
+ * timeouts and transient errors that persist after retrying
+ */
+export class DatabaseUnavailableError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'DatabaseUnavailableError';
+  }
+}
+
+// Process-wide pool, created on first use and recreated after connection failures
+let poolPromise: Promise<sql.ConnectionPool> | null = null;
+
+function getNumberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
 // Get database configuration from environment variables
 function getDatabaseConfig(): DatabaseConfig {
   const server = process.env.DATABASE_SERVER;
@@ -26,7 +86,7 @@ function getDatabaseConfig(): DatabaseConfig {
   const driver = process.env.DATABASE_DRIVER || 'ODBC Driver 17 for SQL Server';
 
   if (!server || !database || !user || !password) {
-    throw new Error('Missing required database environment variables');
+    throw new DatabaseUnavailableError('Missing required database environment variables');
   }
 
   return {
@@ -35,6 +95,13 @@ function getDatabaseConfig(): DatabaseConfig {
     user,
     password,
     driver,
+    connectionTimeout: getNumberFromEnv('DATABASE_CONNECTION_TIMEOUT_MS', DEFAULT_CONNECTION_TIMEOUT_MS),
+    requestTimeout: getNumberFromEnv('DATABASE_REQUEST_TIMEOUT_MS', DEFAULT_REQUEST_TIMEOUT_MS),
+    pool: {
+      max: getNumberFromEnv('DATABASE_POOL_MAX', DEFAULT_POOL_MAX),
+      min: 0,
+      idleTimeoutMillis: 30000,
+    },
     options: {
       encrypt: true,
       trustServerCertificate: true,
@@ -42,78 +109,216 @@ function getDatabaseConfig(): DatabaseConfig {
   };
 }
 
-// Create and return a database connection
-export async function createConnection(): Promise<sql.ConnectionPool> {
+/**
+ * Get the shared pool, connecting on first use. Concurrent callers share the same connection attempt;
+ * a failed attempt is not cached, and a pool that has lost its connection is replaced.
+ * Connection errors are thrown as they are so callers can tell transient failures apart.
+ */
+async function acquireConnectionPool(): Promise<sql.ConnectionPool> {
+  if (poolPromise) {
+    const pool = await poolPromise.catch(() => null);
+    if (pool && pool.connected) {
+      return pool;
+    }
+    if (pool) {
+      console.warn('Database pool is no longer connected, reconnecting...');
+      resetConnectionPool();
+    }
+  }
+
+  if (!poolPromise) {
+    const connecting: Promise<sql.ConnectionPool> = (async () => {
+      console.log('Attempting to connect to MSSQL database...');
+
+      const pool = new sql.ConnectionPool(getDatabaseConfig());
+      pool.on('error', error => {
+        console.error('Database pool error, the pool will be recreated:', error);
+        if (poolPromise === connecting) {
+          resetConnectionPool();
+        }
+      });
+
+      await pool.connect();
+      console.log('Successfully connected to MSSQL database');
+      return pool;
+    })();
+
+    poolPromise = connecting;
+    connecting.catch(error => {
+      console.error('Failed to connect to database:', error);
+      if (poolPromise === connecting) {
+        poolPromise = null;
+      }
+    });
+  }
+
+  return poolPromise;
+}
+
+/**
+ * Get the shared connection pool, connecting on first use
+ * @throws DatabaseUnavailableError if the database is not configured or cannot be reached
+ */
+export async function getConnectionPool(): Promise<sql.ConnectionPool> {
   try {
-    console.log('Attempting to connect to MSSQL database...');
-    
-    const config = getDatabaseConfig();
-    const pool = new sql.ConnectionPool(config);
-    
-    await pool.connect();
-    console.log('Successfully connected to MSSQL database');
-    
-    return pool;
+    return await acquireConnectionPool();
   } catch (error) {
-    console.error('Failed to connect to database:', error);
-    throw new Error(`Database connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new DatabaseUnavailableError(`Database connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
 
-// Execute a query with error handling
-export async function executeQuery<T = unknown>(
-  query: string,
-  parameters?: Record<string, string | number | boolean | null>
-): Promise<sql.IResult<T>> {
-  let connection: sql.ConnectionPool | null = null;
-  
-  try {
-    console.log('Executing query:', query.substring(0, 100) + (query.length > 100 ? '...' : ''));
-    
-    connection = await createConnection();
-    const request = connection.request();
-    
-    // Add parameters if provided
-    if (parameters) {
-      Object.entries(parameters).forEach(([key, value]) => {
-        request.input(key, value);
-      });
+/**
+ * Drop the shared pool so the next query reconnects, closing it in the background
+ */
+function resetConnectionPool(): void {
+  const stalePromise = poolPromise;
+  poolPromise = null;
+
+  stalePromise?.then(pool => pool.close()).catch(() => {
+    // The pool is being discarded, so errors while connecting or closing it are irrelevant
+  });
+}
+
+/**
+ * Close the shared pool, e.g. at the end of a script
+ */
+export async function closeConnectionPool(): Promise<void> {
+  const currentPromise = poolPromise;
+  poolPromise = null;
+
+  if (currentPromise) {
+    try {
+      await (await currentPromise).close();
+      console.log('Database connection closed');
+    } catch (closeError) {
+      console.error('Error closing database connection:', closeError);
     }
-    
-    const result = await request.query(query);
-    console.log(`Query executed successfully, returned ${result.recordset.length} rows`);
-    
-    return result;
+  }
+}
+
+/**
+ * Check whether an error is temporary (dropped connection, timeout, deadlock, database busy)
+ */
+function isTransientError(error: unknown): boolean {
+  if (error instanceof sql.RequestError && error.number !== undefined && TRANSIENT_ERROR_NUMBERS.has(error.number)) {
+    return true;
+  }
+
+  return error instanceof sql.MSSQLError && TRANSIENT_ERROR_CODES.has(error.code);
+}
+
+function isConnectionError(error: unknown): boolean {
+  return error instanceof sql.ConnectionError || (error instanceof sql.MSSQLError && ['ESOCKET', 'ECONNCLOSED', 'ENOTOPEN'].includes(error.code));
+}
+
+/**
+ * Run a query once on the shared pool, cancelling it after the timeout
+ */
+async function runQuery<T>(query: string, parameters: Record<string, QueryParameter>, timeoutMs: number): Promise<sql.IResult<T>> {
+  const pool = await acquireConnectionPool();
+  const request = pool.request();
+
+  Object.entries(parameters).forEach(([key, parameter]) => {
+    request.input(key, parameter.type, parameter.value);
+  });
+
+  let timedOut = false;
+  const timeout = setTimeout(() => {
+    timedOut = true;
+    request.cancel();
+  }, timeoutMs);
+
+  try {
+    return await request.query<T>(query);
   } catch (error) {
-    console.error('Query execution failed:', error);
-    throw new Error(`Query execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (timedOut) {
+      throw new DatabaseUnavailableError(`Query timed out after ${timeoutMs}ms`, { cause: error });
+    }
+    throw error;
   } finally {
-    if (connection) {
-      try {
-        await connection.close();
-        console.log('Database connection closed');
-      } catch (closeError) {
-        console.error('Error closing database connection:', closeError);
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Execute a query on the shared pool with typed parameters.
+ * Transient errors are retried with exponential backoff; connection errors also recreate the pool.
+ * @throws DatabaseUnavailableError if the database cannot be reached, Error for other query failures
+ * @param query - SQL query with @name placeholders
+ * @param parameters - Parameters with explicit SQL types, e.g. { startDate: { type: sql.VarChar(8), value: '20250501' } }
+ * @param options - Optional timeout and retry count
+ */
+export async function executeQuery<T = unknown>(
+  query: string,
+  parameters: Record<string, QueryParameter> = {},
+  options: QueryOptions = {}
+): Promise<sql.IResult<T>> {
+  const timeoutMs = options.timeoutMs ?? getNumberFromEnv('DATABASE_REQUEST_TIMEOUT_MS', DEFAULT_REQUEST_TIMEOUT_MS);
+  const retries = options.retries ?? getNumberFromEnv('DATABASE_QUERY_RETRIES', DEFAULT_QUERY_RETRIES);
+
+  console.log('Executing query:', query.substring(0, 100) + (query.length > 100 ? '...' : ''));
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const result = await runQuery<T>(query, parameters, timeoutMs);
+      console.log(`Query executed successfully, returned ${result.recordset.length} rows`);
+      return result;
+    } catch (error) {
+      if (isConnectionError(error)) {
+        resetConnectionPool();
+      }
+
+      if (attempt < retries && isTransientError(error)) {
+        const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+        console.warn(`Transient database error, retrying in ${delay}ms (attempt ${attempt + 1} of ${retries}):`, error instanceof Error ? error.message : error);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+
+      console.error('Query execution failed:', error);
+      const message = `Query execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      if (error instanceof DatabaseUnavailableError || isConnectionError(error) || isTransientError(error)) {
+        throw new DatabaseUnavailableError(message, { cause: error });
       }
+      throw new Error(message, { cause: error });
     }
   }
 }
 
-// Test database connectivity
-export async function testConnection(): Promise<boolean> {
+/**
+ * Check database health with a lightweight query, measuring the round trip
+ */
+export async function checkDatabaseHealth(): Promise<DatabaseHealth> {
+  const startTime = Date.now();
+
   try {
-    console.log('Testing database connection...');
-    const result = await executeQuery<{ test: number }>('SELECT 1 as test');
-    
-    if (result.recordset.length > 0 && result.recordset[0].test === 1) {
-      console.log('Database connection test passed');
-      return true;
-    } else {
-      console.error('Database connection test failed - unexpected result');
-      return false;
-    }
+    const result = await executeQuery<{ test: number }>('SELECT 1 as test', {}, { retries: 0, timeoutMs: 5000 });
+    const healthy = result.recordset.length > 0 && result.recordset[0].test === 1;
+
+    return {
+      healthy,
+      latencyMs: Date.now() - startTime,
+      ...(healthy ? {} : { error: 'Unexpected result from health check query' })
+    };
   } catch (error) {
-    console.error('Database connection test failed:', error);
-    return false;
+    return {
+      healthy: false,
+      latencyMs: Date.now() - startTime,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
   }
-} 
\ No newline at end of file
+}
+
+// Test database connectivity
+export async function testConnection(): Promise<boolean> {
+  console.log('Testing database connection...');
+  const health = await checkDatabaseHealth();
+
+  if (health.healthy) {
+    console.log(`Database connection test passed (${health.latencyMs}ms)`);
+  } else {
+    console.error('Database connection test failed:', health.error);
+  }
+
+  return health.healthy;
+}
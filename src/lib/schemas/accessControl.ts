@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+const userSchema = z.string().min(1).describe('User principal name as reported by the auth provider (e.g., "jane@solitwork.dk")');
+
+// Access control schema (data/config/access.json)
+export const accessEntrySchema = z.discriminatedUnion('role', [
+  z.object({
+    user: userSchema,
+    role: z.literal('finance').describe('Sees all teams and entities'),
+  }),
+  z.object({
+    user: userSchema,
+    role: z.literal('entity_manager').describe('Sees the teams of one legal entity'),
+    entity: z.string().min(1).describe('Legal entity or entity alias (e.g., "Solitwork Denmark")'),
+  }),
+  z.object({
+    user: userSchema,
+    role: z.literal('team_lead').describe('Sees one team'),
+    team: z.string().min(1).describe('Team in any common notation (e.g., "CST III")'),
+  }),
+]);
+
+export const accessControlSchema = z.object({
+  users: z.array(accessEntrySchema).default([]),
+});
+
+// Type exports
+export type AccessEntry = z.infer<typeof accessEntrySchema>;
+export type AccessControl = z.infer<typeof accessControlSchema>;
+export type UserRole = AccessEntry['role'];
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+// Columns every budget file must have besides the monthly columns
+export const BUDGET_REQUIRED_COLUMNS = ['Team', 'Description', 'Employee', 'TaskID'] as const;
+
+// Monthly budget columns are period codes (e.g., "202501")
+export const budgetMonthColumnSchema = z.string().regex(/^\d{6}$/, 'Expected a month column in YYYYMM format');
+
+// Hours accept a decimal point or a decimal comma ("7.5" or "7,5"); empty cells count as 0
+export const budgetHoursSchema = z.string().trim().transform((value, ctx) => {
+  if (value === '') {
+    return 0;
+  }
+
+  const normalized = value.replace(',', '.');
+  if (!/^-?\d+(\.\d+)?$/.test(normalized)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${value}" is not a number of hours` });
+    return z.NEVER;
+  }
+
+  return parseFloat(normalized);
+}).pipe(z.number().nonnegative('Hours cannot be negative'));
+
+// Budget CSV row schema (data/budget/budget<year>.csv)
+export const budgetRowSchema = z.object({
+  Team: z.string().trim().min(1, 'Team is required').describe('Team name in CSV format (e.g., "CST III")'),
+  Description: z.string().trim().describe('Task description (e.g., "Timer, Fakturerbar")'),
+  Employee: z.string().trim().regex(/^[A-ZÆØÅ]{2,5}$/i, 'Employee must be initials (e.g., "THN")').transform(value => value.toUpperCase()),
+  TaskID: z.string().trim().min(1, 'TaskID is required'),
+  monthlyHours: z.record(budgetMonthColumnSchema, budgetHoursSchema),
+});
+
+// Type exports
+export type BudgetRowInput = z.input<typeof budgetRowSchema>;
+export type BudgetRow = z.infer<typeof budgetRowSchema>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { conversationIdSchema } from '@/lib/schemas/conversation';
 
 // Message validation schema
 export const messageSchema = z.object({
@@ -10,20 +11,70 @@ export const messageSchema = z.object({
 
 export const messagesArraySchema = z.array(messageSchema);
 
+// Chat request body: the conversation ID and the new message; the history is loaded from the conversation store.
+// The role is checked by the chat route, so system and tool messages are rejected with a clear error.
+export const chatRequestSchema = z.object({
+  id: conversationIdSchema,
+  message: messageSchema.extend({
+    id: z.string().min(1),
+    content: z.string().trim().min(1, 'Message content cannot be empty'),
+  }),
+}).strict();
+
 // Tool parameter schemas
 export const executiveSummaryParamsSchema = z.object({
-  period: z.string().describe('Time period for analysis (e.g., "Q1 2024", "last month")'),
+  period: z.string().describe('Time period for analysis (e.g., "May 2025", "Q1 2025", "H1 2025", "YTD 2025", "March–May 2025", "last month", "last quarter")'),
   team: z.string().optional().describe('Team name to filter by'),
 });
 
 export const teamPerformanceParamsSchema = z.object({
   teamName: z.string().describe('Name of the team to analyze'),
-  period: z.string().describe('Time period for analysis (e.g., "Q1 2024", "last month")'),
+  period: z.string().describe('Time period for analysis (e.g., "May 2025", "Q1 2025", "H1 2025", "YTD 2025", "March–May 2025", "last month", "last quarter")'),
   includeIndividuals: z.boolean().default(true).describe('Whether to include individual performance breakdown'),
 });
 
+export const entityComparisonParamsSchema = z.object({
+  period: z.string().describe('Time period for analysis (e.g., "May 2025", "Q1 2025", "YTD 2025", "last month")'),
+});
+
+export const dataQualityParamsSchema = z.object({
+  period: z.string().describe('Time period for analysis (e.g., "May 2025", "Q1 2025", "last month")'),
+  team: z.string().optional().describe('Team or legal entity to filter by'),
+});
+
+export const trendParamsSchema = z.object({
+  period: z.string().describe('Time period covering several months (e.g., "YTD 2025", "Q2 2025", "H1 2025", "January–June 2025", "last quarter")'),
+  team: z.string().optional().describe('Team or legal entity to filter by'),
+});
+
+export const forecastParamsSchema = z.object({
+  year: z.number().int().min(2000).max(2100).optional().describe('Budget year to forecast (e.g., 2025); defaults to the current year'),
+  method: z.enum(['budget', 'run-rate', 'seasonal']).default('budget').describe('How to project the remaining months: "budget" (remaining months on budget), "run-rate" (average of the last three months) or "seasonal" (budget profile scaled by year-to-date utilization)'),
+  team: z.string().optional().describe('Team or legal entity to filter by'),
+});
+
+export const projectDrillDownParamsSchema = z.object({
+  period: z.string().describe('Time period for analysis (e.g., "May 2025", "Q1 2025", "last month")'),
+  team: z.string().optional().describe('Team or legal entity to filter by'),
+  groupBy: z.enum(['project', 'client']).default('project').describe('Break hours down by "project" (default) or "client"'),
+  sortBy: z.enum(['hours', 'change']).default('hours').describe('Rank by billable hours ("hours", default) or by the change against the previous period ("change")'),
+  limit: z.number().int().min(1).max(25).default(10).describe('Number of top projects or clients to return'),
+});
+
+export const budgetReportParamsSchema = z.object({
+  period: z.string().describe('Time period for the report (e.g., "May 2025", "Q1 2025", "last month")'),
+  team: z.string().optional().describe('Team or legal entity to report on'),
+});
+
 // Type exports
 export type Message = z.infer<typeof messageSchema>;
 export type MessagesArray = z.infer<typeof messagesArraySchema>;
+export type ChatRequest = z.infer<typeof chatRequestSchema>;
 export type ExecutiveSummaryParams = z.infer<typeof executiveSummaryParamsSchema>;
-export type TeamPerformanceParams = z.infer<typeof teamPerformanceParamsSchema>; 
\ No newline at end of file
+export type TeamPerformanceParams = z.infer<typeof teamPerformanceParamsSchema>;
+export type EntityComparisonParams = z.infer<typeof entityComparisonParamsSchema>;
+export type DataQualityParams = z.infer<typeof dataQualityParamsSchema>; 
+export type TrendParams = z.infer<typeof trendParamsSchema>;
+export type ForecastParams = z.infer<typeof forecastParamsSchema>;
+export type ProjectDrillDownParams = z.infer<typeof projectDrillDownParamsSchema>;
+export type BudgetReportParams = z.infer<typeof budgetReportParamsSchema>;
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+// Conversation IDs are used as file names, so only allow URL- and file-safe characters
+export const conversationIdSchema = z.string().regex(/^[A-Za-z0-9_-]{8,64}$/, 'Invalid conversation ID');
+
+export const conversationTitleSchema = z.string().trim().min(1, 'Title cannot be empty').max(120, 'Title cannot be longer than 120 characters');
+
+// A tool call of an answer with its result, as sanitized by the privacy guard, so a resumed conversation
+// gives the model the figures the answer was based on
+export const storedToolInvocationSchema = z.object({
+  step: z.number().int().nonnegative(),
+  toolCallId: z.string().min(1),
+  toolName: z.string().min(1),
+  args: z.unknown(),
+  result: z.unknown(),
+});
+
+// A message as stored with its conversation: the user's questions and the assistant's answers with their tool calls
+export const storedMessageSchema = z.object({
+  id: z.string().min(1),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  toolInvocations: z.array(storedToolInvocationSchema).optional(),
+  createdAt: z.string().datetime(),
+});
+
+// Conversation file schema (data/conversations/<id>.json)
+export const conversationSchema = z.object({
+  id: conversationIdSchema,
+  owner: z.string().min(1).describe('User principal name of the user who started the conversation'),
+  title: z.string(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  messages: z.array(storedMessageSchema),
+});
+
+// Request body of PATCH /api/conversations/[id]
+export const renameConversationSchema = z.object({
+  title: conversationTitleSchema,
+});
+
+// Request body of POST /api/conversations
+export const createConversationSchema = z.object({
+  title: conversationTitleSchema.optional(),
+});
+
+// Type exports
+export type StoredToolInvocation = z.infer<typeof storedToolInvocationSchema>;
+export type StoredMessage = z.infer<typeof storedMessageSchema>;
+export type Conversation = z.infer<typeof conversationSchema>;
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date in YYYY-MM-DD format');
+
+// Employee identity mapping schema (data/config/employee-identities.json)
+export const employeeIdentitySchema = z.object({
+  employeeId: z.string().min(1).describe('Stable employee identifier that never changes (e.g., HR number)'),
+  budgetInitials: z.string().min(1).describe('Initials used in the budget CSV Employee column (e.g., "THN")'),
+  aliases: z.array(z.string().min(1)).default([]).describe('Database names or initials that refer to this employee (e.g., "THN - Thomas Nissen", "TNI")'),
+  team: z.string().optional().describe('Team in database format the mapping applies to (e.g., "CST3"); applies to all teams if omitted'),
+  budgetTeam: z.string().optional().describe('Team in CSV format the employee is budgeted in (e.g., "CST IV"), if it differs from the database team'),
+  activeFrom: isoDateSchema.optional().describe('First day the mapping applies (inclusive)'),
+  activeTo: isoDateSchema.nullable().optional().describe('Last day the mapping applies (inclusive); open-ended if omitted or null'),
+});
+
+export const employeeIdentityMappingSchema = z.object({
+  employees: z.array(employeeIdentitySchema).default([]),
+});
+
+// Type exports
+export type EmployeeIdentity = z.infer<typeof employeeIdentitySchema>;
+export type EmployeeIdentityMapping = z.infer<typeof employeeIdentityMappingSchema>;
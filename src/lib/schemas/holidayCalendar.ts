@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+// Holiday calendar schema (data/config/holidays.json)
+export const holidaySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date in YYYY-MM-DD format'),
+  name: z.string().min(1).describe('Holiday name (e.g., "Grundlovsdag")'),
+});
+
+export const countryCalendarSchema = z.object({
+  years: z.array(z.number().int()).describe('Years the holiday list is complete for'),
+  holidays: z.array(holidaySchema).describe('Public holidays and company closure days on weekdays'),
+});
+
+export const holidayCalendarSchema = z.object({
+  calendars: z.record(z.string().length(2), countryCalendarSchema).describe('Calendars keyed by ISO 3166-1 alpha-2 country code, matching the team registry'),
+});
+
+// Type exports
+export type Holiday = z.infer<typeof holidaySchema>;
+export type CountryCalendar = z.infer<typeof countryCalendarSchema>;
+export type HolidayCalendar = z.infer<typeof holidayCalendarSchema>;
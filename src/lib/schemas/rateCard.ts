@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+const currencySchema = z.string().length(3).describe('ISO 4217 currency code (e.g., "DKK")');
+const hourlyRateSchema = z.number().nonnegative();
+
+// Rate card schema (data/config/rate-card.json)
+export const rateCardEmployeeSchema = z.object({
+  initials: z.string().min(1).describe('Initials used in the budget CSV Employee column (e.g., "THN")'),
+  team: z.string().optional().describe('Team display name the entry applies to (e.g., "CST III"); applies to all teams if omitted'),
+  role: z.string().optional().describe('Role in the rate card roles; the default role is used if omitted'),
+  hourlyRate: hourlyRateSchema.optional().describe('Individual hourly rate in the team currency, overriding the role rate'),
+});
+
+export const rateCardSchema = z.object({
+  defaultRole: z.string().min(1).describe('Role used for employees without a rate card entry'),
+  roles: z.record(z.string(), z.record(currencySchema, hourlyRateSchema)).describe('Hourly rates per role and currency (e.g., { "Consultant": { "DKK": 1050, "EUR": 140 } })'),
+  employees: z.array(rateCardEmployeeSchema).default([]),
+}).refine(rateCard => rateCard.defaultRole in rateCard.roles, {
+  message: 'defaultRole must be one of the roles',
+  path: ['defaultRole'],
+});
+
+// Exchange rates schema (data/config/exchange-rates.json)
+export const exchangeRatesSchema = z.object({
+  reportingCurrency: currencySchema.describe('Currency that totals across entities are reported in'),
+  asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date in YYYY-MM-DD format').optional().describe('Date the rates were taken'),
+  rates: z.record(currencySchema, z.number().positive()).describe('Value of one unit of each currency in the reporting currency'),
+});
+
+// Type exports
+export type RateCardEmployee = z.infer<typeof rateCardEmployeeSchema>;
+export type RateCard = z.infer<typeof rateCardSchema>;
+export type ExchangeRates = z.infer<typeof exchangeRatesSchema>;
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+// Query parameters of GET /api/reports
+export const budgetReportQuerySchema = z.object({
+  period: z.string({ required_error: 'Period is required' }).trim().min(1, 'Period is required').describe('Period like "May 2025", "Q1 2025" or "last month"'),
+  team: z.string().trim().min(1).optional().describe('Team or legal entity; all teams in the user\'s scope if omitted'),
+  format: z.enum(['markdown', 'json']).default('markdown'),
+});
+
+// Request body of POST /api/reports/monthly
+export const monthlyExportRequestSchema = z.object({
+  period: z.string().trim().min(1).optional().describe('Month to export (e.g., "May 2025"); the previous month if omitted'),
+  commentary: z.boolean().default(true).describe('Whether to add the assistant\'s written commentary'),
+}).strict();
+
+// Type exports
+export type BudgetReportQuery = z.infer<typeof budgetReportQuerySchema>;
+export type MonthlyExportRequest = z.infer<typeof monthlyExportRequestSchema>;
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+// Team registry schema (data/config/teams.json)
+export const teamRegistryEntrySchema = z.object({
+  databaseCode: z.string().min(1).describe('Team code in the warehouse (e.g., "CST3")'),
+  displayName: z.string().min(1).describe('Team name in the budget CSV and in reports (e.g., "CST III")'),
+  entity: z.string().min(1).describe('Legal entity the team belongs to (e.g., "Solitwork Denmark")'),
+  country: z.string().length(2).describe('ISO 3166-1 alpha-2 country code of the entity (e.g., "DK")'),
+  currency: z.string().length(3).describe('ISO 4217 currency code of the entity (e.g., "DKK")'),
+});
+
+export const teamRegistrySchema = z.object({
+  teams: z.array(teamRegistryEntrySchema).min(1, 'Team registry must contain at least one team'),
+  entityAliases: z.record(z.array(z.string())).default({}),
+});
+
+// Type exports
+export type TeamRegistryEntry = z.infer<typeof teamRegistryEntrySchema>;
+export type TeamRegistry = z.infer<typeof teamRegistrySchema>;
@@ -0,0 +1,147 @@
+/**
+ * In-memory result caches with per-entry expiry.
+ * Caches are process-wide and registered by name, so they can be inspected and purged
+ * through the admin cache endpoint.
+ */
+
+export interface CacheStats {
+  name: string;
+  entries: number;
+  hits: number;
+  misses: number;
+}
+
+export interface TtlCache<T> {
+  name: string;
+  /** Get a value that has not expired */
+  get(key: string): T | undefined;
+  /** Store a value for ttlMs milliseconds (Infinity keeps it until purged) */
+  set(key: string, value: T, ttlMs: number): void;
+  /**
+   * Get a cached value or load and cache it. Concurrent calls for the same key share one load;
+   * failed loads and loads that started before a delete or clear are not cached.
+   */
+  getOrLoad(key: string, ttlMs: number, loader: () => Promise<T>): Promise<T>;
+  delete(key: string): void;
+  clear(): void;
+  stats(): CacheStats;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+const registry = new Map<string, TtlCache<unknown>>();
+
+/**
+ * Create a named cache and register it for purging. Creating a cache with an existing name
+ * returns the registered cache.
+ * @param name - Cache name used by the admin endpoint (e.g., 'billedHours')
+ */
+export function createTtlCache<T>(name: string): TtlCache<T> {
+  const existing = registry.get(name);
+  if (existing) {
+    return existing as TtlCache<T>;
+  }
+
+  const entries = new Map<string, CacheEntry<T>>();
+  const pending = new Map<string, Promise<T>>();
+  let hits = 0;
+  let misses = 0;
+  // Bumped by delete and clear, so a load that started earlier does not write its stale result back
+  let generation = 0;
+
+  const removeExpired = (now: number) => {
+    entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+      }
+    });
+  };
+
+  const cache: TtlCache<T> = {
+    name,
+    get(key) {
+      const entry = entries.get(key);
+      if (entry && entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+      } else if (entry) {
+        hits++;
+        return entry.value;
+      }
+      misses++;
+      return undefined;
+    },
+    set(key, value, ttlMs) {
+      if (ttlMs > 0) {
+        // Entries are otherwise only removed when read, so keys that are never read again would pile up
+        const now = Date.now();
+        removeExpired(now);
+        entries.set(key, { value, expiresAt: now + ttlMs });
+      }
+    },
+    async getOrLoad(key, ttlMs, loader) {
+      const cached = cache.get(key);
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      const inFlight = pending.get(key);
+      if (inFlight) {
+        return inFlight;
+      }
+
+      const startedGeneration = generation;
+      const loading = loader()
+        .then(value => {
+          if (generation === startedGeneration) {
+            cache.set(key, value, ttlMs);
+          }
+          return value;
+        })
+        .finally(() => {
+          if (pending.get(key) === loading) {
+            pending.delete(key);
+          }
+        });
+      pending.set(key, loading);
+      return loading;
+    },
+    delete(key) {
+      generation++;
+      entries.delete(key);
+      pending.delete(key);
+    },
+    clear() {
+      generation++;
+      entries.clear();
+      pending.clear();
+      hits = 0;
+      misses = 0;
+    },
+    stats() {
+      return { name, entries: entries.size, hits, misses };
+    }
+  };
+
+  registry.set(name, cache as TtlCache<unknown>);
+  return cache;
+}
+
+/**
+ * Purge one cache by name, or all caches
+ * @returns Names of the purged caches (empty if no cache has the given name)
+ */
+export function clearCaches(name?: string): string[] {
+  const caches = name ? [registry.get(name)].filter((cache): cache is TtlCache<unknown> => !!cache) : Array.from(registry.values());
+  caches.forEach(cache => cache.clear());
+  return caches.map(cache => cache.name);
+}
+
+/**
+ * Get entry counts and hit rates for all registered caches
+ */
+export function getCacheStats(): CacheStats[] {
+  return Array.from(registry.values()).map(cache => cache.stats());
+}
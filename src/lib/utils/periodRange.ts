@@ -0,0 +1,293 @@
+/**
+ * Period Range Utility
+ * Parses user-facing period descriptions ('May 2025', 'Q1 2025', 'March–May 2025', 'last month')
+ * into a range of monthly period codes ('202505') and a date range ('20250501'-'20250601')
+ */
+
+export type PeriodKind = 'month' | 'quarter' | 'half-year' | 'year' | 'year-to-date' | 'range';
+
+export interface PeriodRange {
+  /** Human-readable label (e.g., 'Q1 2025') */
+  label: string;
+  kind: PeriodKind;
+  /** Monthly period codes covered by the range, in order (e.g., ['202501', '202502', '202503']) */
+  monthCodes: string[];
+  /** First day of the range as YYYYMMDD (inclusive) */
+  startDate: string;
+  /** First day after the range as YYYYMMDD (exclusive) */
+  endDate: string;
+}
+
+/**
+ * Error thrown when a period description cannot be parsed
+ */
+export class PeriodParseError extends Error {
+  constructor(period: string, reason?: string) {
+    super(`Could not parse period "${period}"${reason ? `: ${reason}` : ''}. ${SUPPORTED_FORMATS}`);
+    this.name = 'PeriodParseError';
+  }
+}
+
+const SUPPORTED_FORMATS = 'Supported formats: "May 2025", "202505", "2025-05", "Q1 2025", "H1 2025", "2025", "YTD 2025", "March–May 2025", "last month", "last quarter"';
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+// Month name or common abbreviation -> month number (1-12)
+const MONTH_LOOKUP: Record<string, number> = MONTH_NAMES.reduce((lookup, name, index) => {
+  lookup[name] = index + 1;
+  lookup[name.substring(0, 3)] = index + 1;
+  return lookup;
+}, { sept: 9 } as Record<string, number>);
+
+// Separators accepted between the two ends of an explicit range. An ASCII hyphen only separates
+// when spaced or between month names, so the hyphen inside "2025-03" is not treated as one.
+const RANGE_SEPARATOR = /\s+-\s+|(?<=[a-z])-(?=[a-z])|\s*[–—]\s*|\s+(?:to|through|until)\s+/;
+
+/**
+ * Convert year and month number to a period code
+ * Example: (2025, 5) -> '202505'
+ */
+export function toPeriodCode(year: number, month: number): string {
+  return `${year}${String(month).padStart(2, '0')}`;
+}
+
+/**
+ * Shift a period code by a number of months
+ * Examples: ('202505', -1) -> '202504', ('202501', -1) -> '202412'
+ */
+export function addMonths(periodCode: string, months: number): string {
+  const year = parseInt(periodCode.substring(0, 4), 10);
+  const month = parseInt(periodCode.substring(4, 6), 10);
+  const monthIndex = year * 12 + (month - 1) + months;
+
+  return toPeriodCode(Math.floor(monthIndex / 12), (monthIndex % 12) + 1);
+}
+
+/**
+ * Format a period code for display
+ * Example: '202505' -> 'May 2025'
+ */
+export function formatPeriodCode(periodCode: string): string {
+  const monthName = MONTH_NAMES[parseInt(periodCode.substring(4, 6), 10) - 1];
+  return `${monthName.charAt(0).toUpperCase()}${monthName.slice(1)} ${periodCode.substring(0, 4)}`;
+}
+
+/**
+ * Create a period range covering all months from startCode to endCode (inclusive)
+ */
+export function createPeriodRange(startCode: string, endCode: string, kind: PeriodKind = 'range', label?: string): PeriodRange {
+  if (startCode > endCode) {
+    throw new PeriodParseError(`${startCode}-${endCode}`, 'range start is after range end');
+  }
+
+  const monthCodes: string[] = [];
+  for (let code = startCode; code <= endCode; code = addMonths(code, 1)) {
+    monthCodes.push(code);
+  }
+
+  const defaultLabel = startCode === endCode
+    ? formatPeriodCode(startCode)
+    : `${formatPeriodCode(startCode)} – ${formatPeriodCode(endCode)}`;
+
+  return {
+    label: label || defaultLabel,
+    kind,
+    monthCodes,
+    startDate: `${startCode}01`,
+    endDate: `${addMonths(endCode, 1)}01`
+  };
+}
+
+/**
+ * Get the range of equal length immediately before the given range
+ * Examples: 'May 2025' -> 'April 2025', 'Q2 2025' -> 'January 2025 – March 2025'
+ */
+export function getPreviousPeriodRange(range: PeriodRange): PeriodRange {
+  const length = range.monthCodes.length;
+  const startCode = addMonths(range.monthCodes[0], -length);
+  const endCode = addMonths(range.monthCodes[0], -1);
+
+  return createPeriodRange(startCode, endCode, length === 1 ? 'month' : 'range');
+}
+
+/**
+ * Parse a month description like 'May 2025', 'may', '2025-05' or '202505'
+ * @returns Period code, or null when the text is not a single month
+ */
+function parseMonth(text: string, defaultYear?: number): string | null {
+  if (/^\d{6}$/.test(text)) {
+    const month = parseInt(text.substring(4, 6), 10);
+    return month >= 1 && month <= 12 ? text : null;
+  }
+
+  const isoMatch = text.match(/^(\d{4})[-/](\d{1,2})$/);
+  if (isoMatch) {
+    const month = parseInt(isoMatch[2], 10);
+    return month >= 1 && month <= 12 ? toPeriodCode(parseInt(isoMatch[1], 10), month) : null;
+  }
+
+  const nameMatch = text.match(/^([a-z]+)\.?(?:\s+(\d{4}))?$/);
+  if (nameMatch && MONTH_LOOKUP[nameMatch[1]]) {
+    const year = nameMatch[2] ? parseInt(nameMatch[2], 10) : defaultYear;
+    return year ? toPeriodCode(year, MONTH_LOOKUP[nameMatch[1]]) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a relative period like 'last month' or 'this quarter'
+ */
+function parseRelativePeriod(text: string, referenceDate: Date): PeriodRange | null {
+  const currentCode = toPeriodCode(referenceDate.getFullYear(), referenceDate.getMonth() + 1);
+  const quarterStartCode = addMonths(currentCode, -(referenceDate.getMonth() % 3));
+  const year = referenceDate.getFullYear();
+
+  switch (text) {
+    case 'this month':
+    case 'current month':
+    case 'month to date':
+      return createPeriodRange(currentCode, currentCode, 'month');
+    case 'last month':
+    case 'previous month':
+      return createPeriodRange(addMonths(currentCode, -1), addMonths(currentCode, -1), 'month');
+    case 'this quarter':
+    case 'current quarter':
+    case 'quarter to date':
+      return parseQuarter(Math.floor(referenceDate.getMonth() / 3) + 1, year);
+    case 'last quarter':
+    case 'previous quarter': {
+      const startCode = addMonths(quarterStartCode, -3);
+      return parseQuarter(Math.floor((parseInt(startCode.substring(4, 6), 10) - 1) / 3) + 1, parseInt(startCode.substring(0, 4), 10));
+    }
+    case 'this year':
+    case 'current year':
+    case 'ytd':
+    case 'year to date':
+      return parseYearToDate(year, referenceDate);
+    case 'last year':
+    case 'previous year':
+      return createPeriodRange(toPeriodCode(year - 1, 1), toPeriodCode(year - 1, 12), 'year', String(year - 1));
+    default:
+      return null;
+  }
+}
+
+function parseQuarter(quarter: number, year: number): PeriodRange {
+  const startMonth = (quarter - 1) * 3 + 1;
+  return createPeriodRange(toPeriodCode(year, startMonth), toPeriodCode(year, startMonth + 2), 'quarter', `Q${quarter} ${year}`);
+}
+
+function parseHalfYear(half: number, year: number): PeriodRange {
+  const startMonth = (half - 1) * 6 + 1;
+  return createPeriodRange(toPeriodCode(year, startMonth), toPeriodCode(year, startMonth + 5), 'half-year', `H${half} ${year}`);
+}
+
+/**
+ * Year to date runs from January to the reference month for the current year,
+ * and covers the whole year for past years
+ */
+function parseYearToDate(year: number, referenceDate: Date): PeriodRange {
+  const endMonth = year === referenceDate.getFullYear() ? referenceDate.getMonth() + 1 : 12;
+  const range = createPeriodRange(toPeriodCode(year, 1), toPeriodCode(year, endMonth), 'year-to-date');
+  return { ...range, label: `YTD ${year} (${range.label})` };
+}
+
+/**
+ * Parse an explicit range like 'March–May 2025', 'Nov–Feb 2025', 'March 2025 to May 2025', 'Nov 2024 - Feb 2025' or '2025-03 - 2025-05'
+ */
+function parseExplicitRange(text: string): PeriodRange | null {
+  const parts = text.split(RANGE_SEPARATOR);
+  if (parts.length !== 2) {
+    return null;
+  }
+
+  const [startText, endText] = parts.map(part => part.trim());
+  const endCode = parseMonth(endText);
+  if (!endCode) {
+    return null;
+  }
+
+  // 'March–May 2025' takes the year from the end of the range, and 'Nov–Feb 2025' starts in the year before
+  const explicitStartCode = parseMonth(startText);
+  let startCode = explicitStartCode ?? parseMonth(startText, parseInt(endCode.substring(0, 4), 10));
+  if (!startCode) {
+    return null;
+  }
+  if (!explicitStartCode && startCode > endCode) {
+    startCode = addMonths(startCode, -12);
+  }
+
+  if (startCode > endCode) {
+    throw new PeriodParseError(text, 'range start is after range end');
+  }
+
+  return createPeriodRange(startCode, endCode, startCode === endCode ? 'month' : 'range');
+}
+
+/**
+ * Parse a period description into a period range
+ * @param period - Period like "May 2025", "Q1 2025", "H2 2025", "2025", "YTD 2025",
+ *                 "March–May 2025", "last month" or "last quarter"
+ * @param referenceDate - Date used to resolve relative periods (defaults to now)
+ * @returns Period range covering the requested months
+ * @throws PeriodParseError if the period cannot be parsed
+ */
+export function parsePeriod(period: string, referenceDate: Date = new Date()): PeriodRange {
+  if (!period || typeof period !== 'string' || !period.trim()) {
+    throw new PeriodParseError(String(period ?? ''), 'period is empty');
+  }
+
+  const text = period.toLowerCase().trim().replace(/\s+/g, ' ');
+
+  const monthCode = parseMonth(text);
+  if (monthCode) {
+    return createPeriodRange(monthCode, monthCode, 'month');
+  }
+
+  const relative = parseRelativePeriod(text, referenceDate);
+  if (relative) {
+    return relative;
+  }
+
+  const quarterMatch = text.match(/^q([1-4])[\s-]?(\d{4})$/) || text.match(/^(\d{4})[\s-]?q([1-4])$/);
+  if (quarterMatch) {
+    const [quarter, year] = quarterMatch[1].length === 4
+      ? [quarterMatch[2], quarterMatch[1]]
+      : [quarterMatch[1], quarterMatch[2]];
+    return parseQuarter(parseInt(quarter, 10), parseInt(year, 10));
+  }
+
+  const halfMatch = text.match(/^h([12])[\s-]?(\d{4})$/);
+  if (halfMatch) {
+    return parseHalfYear(parseInt(halfMatch[1], 10), parseInt(halfMatch[2], 10));
+  }
+
+  const ytdMatch = text.match(/^(?:ytd|year[\s-]to[\s-]date)\s*(\d{4})$/) || text.match(/^(\d{4})\s*(?:ytd|year[\s-]to[\s-]date)$/);
+  if (ytdMatch) {
+    return parseYearToDate(parseInt(ytdMatch[1], 10), referenceDate);
+  }
+
+  const yearMatch = text.match(/^(?:fy\s?)?(\d{4})$/);
+  if (yearMatch) {
+    const year = parseInt(yearMatch[1], 10);
+    return createPeriodRange(toPeriodCode(year, 1), toPeriodCode(year, 12), 'year', String(year));
+  }
+
+  const explicitRange = parseExplicitRange(text);
+  if (explicitRange) {
+    return explicitRange;
+  }
+
+  throw new PeriodParseError(period);
+}
+
+/**
+ * Resolve a period given either as text or as an already parsed range
+ */
+export function resolvePeriodRange(period: string | PeriodRange): PeriodRange {
+  return typeof period === 'string' ? parsePeriod(period) : period;
+}
@@ -0,0 +1,44 @@
+/**
+ * In-memory sliding window rate limiter. Limits are per server process.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Requests left in the current window */
+  remaining: number;
+  /** Seconds until the next request is allowed (0 if allowed) */
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  /** Record a request for a key (e.g., a user) and check whether it is within the limit */
+  check(key: string): RateLimitResult;
+}
+
+/**
+ * Create a rate limiter that allows `limit` requests per key within `windowMs` milliseconds.
+ * Rejected requests do not count towards the limit.
+ */
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const requests = new Map<string, number[]>();
+
+  return {
+    check(key) {
+      const now = Date.now();
+      const recent = (requests.get(key) || []).filter(timestamp => timestamp > now - windowMs);
+
+      if (recent.length >= limit) {
+        requests.set(key, recent);
+        return {
+          allowed: false,
+          remaining: 0,
+          retryAfterSeconds: Math.max(1, Math.ceil((recent[0] + windowMs - now) / 1000))
+        };
+      }
+
+      recent.push(now);
+      requests.set(key, recent);
+      return { allowed: true, remaining: limit - recent.length, retryAfterSeconds: 0 };
+    }
+  };
+}
@@ -1,49 +1,39 @@
 /**
  * Team Name Mapping Utility
  * Converts between database format ('CST3') and CSV format ('CST III')
+ * Registered teams and entities come from the team registry (data/config/teams.json)
  */
 
-// Dictionary for Arabic to Roman numeral conversion (1-20 should be sufficient for teams)
-const ARABIC_TO_ROMAN: Record<number, string> = {
-  1: 'I',
-  2: 'II',
-  3: 'III',
-  4: 'IV',
-  5: 'V',
-  6: 'VI',
-  7: 'VII',
-  8: 'VIII',
-  9: 'IX',
-  10: 'X',
-  11: 'XI',
-  12: 'XII',
-  13: 'XIII',
-  14: 'XIV',
-  15: 'XV',
-  16: 'XVI',
-  17: 'XVII',
-  18: 'XVIII',
-  19: 'XIX',
-  20: 'XX'
-};
-
-// Reverse mapping for Roman to Arabic
-const ROMAN_TO_ARABIC: Record<string, number> = Object.fromEntries(
-  Object.entries(ARABIC_TO_ROMAN).map(([arabic, roman]) => [roman, parseInt(arabic)])
-);
+import { findRegisteredTeam, getRegisteredTeams, getLegalEntities, findLegalEntity } from '@/lib/data/teamRegistry';
+
+// Roman numeral symbols in descending order of value
+const ROMAN_NUMERALS: Array<[string, number]> = [
+  ['M', 1000], ['CM', 900], ['D', 500], ['CD', 400],
+  ['C', 100], ['XC', 90], ['L', 50], ['XL', 40],
+  ['X', 10], ['IX', 9], ['V', 5], ['IV', 4], ['I', 1]
+];
 
 /**
  * Convert Arabic numeral to Roman numeral
- * @param num - Arabic number (1-20)
+ * @param num - Arabic number (1-3999)
  * @returns Roman numeral string
  * @throws Error if number is out of supported range
  */
 export function convertToRoman(num: number): string {
-  if (!Number.isInteger(num) || num < 1 || num > 20) {
-    throw new Error(`Arabic number ${num} is not supported. Must be an integer between 1 and 20.`);
+  if (!Number.isInteger(num) || num < 1 || num > 3999) {
+    throw new Error(`Arabic number ${num} is not supported. Must be an integer between 1 and 3999.`);
   }
-  
-  return ARABIC_TO_ROMAN[num];
+
+  let remaining = num;
+  let roman = '';
+  for (const [symbol, value] of ROMAN_NUMERALS) {
+    while (remaining >= value) {
+      roman += symbol;
+      remaining -= value;
+    }
+  }
+
+  return roman;
 }
 
 /**
@@ -54,16 +44,27 @@ export function convertToRoman(num: number): string {
  */
 export function convertFromRoman(roman: string): number {
   const upperRoman = roman.toUpperCase().trim();
-  
-  if (!ROMAN_TO_ARABIC[upperRoman]) {
+
+  let remaining = upperRoman;
+  let num = 0;
+  for (const [symbol, value] of ROMAN_NUMERALS) {
+    while (remaining.startsWith(symbol)) {
+      num += value;
+      remaining = remaining.substring(symbol.length);
+    }
+  }
+
+  // Reject malformed numerals such as 'IIII' or 'VX' by requiring a round trip
+  if (!upperRoman || remaining || convertToRoman(num) !== upperRoman) {
     throw new Error(`Roman numeral '${roman}' is not supported.`);
   }
-  
-  return ROMAN_TO_ARABIC[upperRoman];
+
+  return num;
 }
 
 /**
  * Convert team name from CSV format to database format
+ * Uses the team registry, falling back to Roman numeral conversion for unregistered teams
  * Example: 'CST III' -> 'CST3'
  * @param csvTeamName - Team name in CSV format (e.g., 'CST III')
  * @returns Team name in database format (e.g., 'CST3')
@@ -73,6 +74,11 @@ export function formatTeamNameForDatabase(csvTeamName: string): string {
   if (!csvTeamName || typeof csvTeamName !== 'string') {
     throw new Error('Team name must be a non-empty string');
   }
+
+  const registeredTeam = findRegisteredTeam(csvTeamName);
+  if (registeredTeam) {
+    return registeredTeam.databaseCode;
+  }
   
   const trimmed = csvTeamName.trim();
   const parts = trimmed.split(/\s+/);
@@ -93,6 +99,7 @@ export function formatTeamNameForDatabase(csvTeamName: string): string {
 
 /**
  * Convert team name from database format to display format
+ * Uses the team registry, falling back to Roman numeral conversion for unregistered teams
  * Example: 'CST3' -> 'CST III'
  * @param dbTeamName - Team name in database format (e.g., 'CST3')
  * @returns Team name in display format (e.g., 'CST III')
@@ -102,6 +109,11 @@ export function formatTeamNameForDisplay(dbTeamName: string): string {
   if (!dbTeamName || typeof dbTeamName !== 'string') {
     throw new Error('Team name must be a non-empty string');
   }
+
+  const registeredTeam = findRegisteredTeam(dbTeamName);
+  if (registeredTeam) {
+    return registeredTeam.displayName;
+  }
   
   const trimmed = dbTeamName.trim();
   
@@ -149,4 +161,110 @@ export function isValidCsvTeamName(teamName: string): boolean {
   } catch {
     return false;
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Get the teams in database format that are part of the budget analysis, from the team registry
+ */
+export function getKnownDatabaseTeams(): string[] {
+  return getRegisteredTeams().map(team => team.databaseCode);
+}
+
+/**
+ * A resolved team filter, covering one team or all teams of a legal entity
+ */
+export interface TeamFilter {
+  /** Display label (e.g., 'CST III' or 'Solitwork Denmark') */
+  label: string;
+  /** Teams in database format (e.g., ['CST3']) */
+  databaseTeamNames: string[];
+  /** Teams in CSV format (e.g., ['CST III']) */
+  csvTeamNames: string[];
+}
+
+/**
+ * Error thrown when a team or entity name cannot be resolved
+ */
+export class UnknownTeamError extends Error {
+  constructor(teamName: string) {
+    const entities = getLegalEntities().map(entity => entity.name).join(', ');
+    const teams = getRegisteredTeams().map(team => team.displayName).join(', ');
+    super(`Unknown team '${teamName}'. Known teams: ${teams}. Known entities: ${entities}`);
+    this.name = 'UnknownTeamError';
+  }
+}
+
+/**
+ * Normalise a team name in any common notation to database format
+ * Examples: 'CST3', 'CST III', 'cst 3', 'CST-3', 'Team CST IV' -> 'CST3' / 'CST4'
+ * @returns Team name in database format, or null if the name is not a team name
+ */
+export function normalizeTeamName(teamName: string): string | null {
+  if (!teamName || typeof teamName !== 'string') {
+    return null;
+  }
+
+  const compact = teamName.trim().toUpperCase().replace(/[\s\-_]+/g, ' ').replace(/^TEAM /, '');
+
+  const arabicMatch = compact.match(/^([A-Z]+) ?(\d+)$/);
+  if (arabicMatch) {
+    return `${arabicMatch[1]}${parseInt(arabicMatch[2], 10)}`;
+  }
+
+  if (isValidCsvTeamName(compact)) {
+    return formatTeamNameForDatabase(compact);
+  }
+
+  return null;
+}
+
+/**
+ * Get a team filter covering every team in the team registry
+ */
+export function getAllTeamsFilter(): TeamFilter {
+  const teams = getRegisteredTeams();
+  return {
+    label: 'All Teams',
+    databaseTeamNames: teams.map(team => team.databaseCode),
+    csvTeamNames: teams.map(team => team.displayName)
+  };
+}
+
+/**
+ * Check whether a requested team means all teams: none, 'all' or 'all teams'
+ */
+export function isAllTeams(teamName?: string): boolean {
+  return !teamName || /^all( teams)?$/i.test(teamName.trim());
+}
+
+/**
+ * Resolve a team or legal entity name to a team filter
+ * Examples: 'CST3', 'CST III', 'cst 3' -> CST III; 'Denmark' -> CST III + CST IV; 'Deutschland' -> CST V;
+ * 'all' or 'all teams' -> all teams
+ * @throws UnknownTeamError if the name matches no known team or entity
+ */
+export function resolveTeamFilter(teamName: string): TeamFilter {
+  if (isAllTeams(teamName)) {
+    return getAllTeamsFilter();
+  }
+
+  const entity = findLegalEntity(teamName);
+  if (entity) {
+    return {
+      label: entity.name,
+      databaseTeamNames: entity.databaseCodes,
+      csvTeamNames: entity.databaseCodes.map(team => formatTeamNameForDisplay(team))
+    };
+  }
+
+  const databaseTeamName = normalizeTeamName(teamName);
+  const registeredTeam = databaseTeamName ? findRegisteredTeam(databaseTeamName) : undefined;
+  if (!registeredTeam) {
+    throw new UnknownTeamError(teamName);
+  }
+
+  return {
+    label: registeredTeam.displayName,
+    databaseTeamNames: [registeredTeam.databaseCode],
+    csvTeamNames: [registeredTeam.displayName]
+  };
+}
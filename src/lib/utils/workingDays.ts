@@ -0,0 +1,60 @@
+import { getHolidayDates } from '@/lib/data/holidayCalendar';
+
+/**
+ * Working-day counting for budget pro-rating.
+ * Working days are Monday to Friday, excluding the holidays in the country's holiday calendar.
+ */
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+export function formatIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Check whether a date is a working day in a country
+ * @param country - ISO 3166-1 alpha-2 country code (e.g., 'DK'); weekends only if no calendar exists
+ */
+export function isWorkingDay(date: Date, country: string): boolean {
+  const dayOfWeek = date.getDay();
+  if (dayOfWeek === 0 || dayOfWeek === 6) {
+    return false;
+  }
+
+  return !getHolidayDates(country, date.getFullYear()).has(formatIsoDate(date));
+}
+
+/**
+ * Count working days from start (inclusive) to end (exclusive)
+ */
+export function countWorkingDays(start: Date, end: Date, country: string): number {
+  let count = 0;
+  for (const day = new Date(start.getFullYear(), start.getMonth(), start.getDate()); day < end; day.setDate(day.getDate() + 1)) {
+    if (isWorkingDay(day, country)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Count the working days in a month that have passed as of a date.
+ * Days before the as-of date count as elapsed; the as-of date itself does not, since its hours are not complete.
+ * @param monthCode - Period code of the month (e.g., '202505')
+ * @param asOf - Date to count elapsed working days up to
+ */
+export function getMonthWorkingDays(monthCode: string, asOf: Date, country: string): { elapsed: number; total: number } {
+  const year = parseInt(monthCode.substring(0, 4), 10);
+  const month = parseInt(monthCode.substring(4, 6), 10) - 1;
+  const monthStart = new Date(year, month, 1);
+  const monthEnd = new Date(year, month + 1, 1);
+  const asOfDay = new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate());
+
+  const elapsedEnd = asOfDay < monthStart ? monthStart : asOfDay > monthEnd ? monthEnd : asOfDay;
+
+  return {
+    elapsed: countWorkingDays(monthStart, elapsedEnd, country),
+    total: countWorkingDays(monthStart, monthEnd, country)
+  };
+}